@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import { FOOTNOTE_SEPARATOR, pageWindowIndices } from "./pageSetup";
+import type { PageLayout, PageWindow } from "./pageSetup";
+import type { PageInsets, PageRange } from "./paginate";
+import type { PageFootnote } from "./extensions/FooterReservePlugin";
+import { FOOTNOTE_PLACEHOLDER } from "./measure";
+
+type FootnoteTextProps = {
+    note: string;
+    autoFocus: boolean;
+    onFocused: () => void;
+    onCommit: (note: string) => void;
+    onReturn: () => void;
+};
+
+// Plain-text note editor. Uncontrolled while focused; the text is written back
+// to the reference on blur, so typing never repaginates mid-word.
+const FootnoteText = ({ note, autoFocus, onFocused, onCommit, onReturn }: FootnoteTextProps) => {
+    const ref = useRef<HTMLSpanElement | null>(null);
+
+    useEffect(() => {
+        if (!autoFocus || !ref.current) return;
+        ref.current.focus();
+        onFocused();
+    }, [autoFocus, onFocused]);
+
+    return (
+        <span
+            ref={ref}
+            role="textbox"
+            aria-label="Footnote text"
+            className="page-footnote__text"
+            contentEditable="plaintext-only"
+            suppressContentEditableWarning
+            data-placeholder={FOOTNOTE_PLACEHOLDER}
+            onBlur={(event) => {
+                const next = (event.currentTarget.textContent ?? "").trim();
+                if (next !== note) onCommit(next);
+            }}
+            onKeyDown={(event) => {
+                if (event.key === "Escape") {
+                    event.currentTarget.textContent = note;
+                } else if (event.key !== "Enter") {
+                    return;
+                }
+                event.preventDefault();
+                event.currentTarget.blur();
+                onReturn();
+            }}
+        >
+            {note}
+        </span>
+    );
+};
+
+type FootnoteOverlayProps = {
+    pages: PageRange[];
+    visiblePages: PageWindow;
+    layout: PageLayout;
+    pageInsets: (pageIndex: number) => PageInsets;
+    footnotes: Map<number, PageFootnote[]>;
+    fontFamily?: string;
+    focusPos: number | null;
+    onFocused: () => void;
+    onChange: (pos: number, note: string) => void;
+    onReturn: (pos: number) => void;
+};
+
+// Each page's notes, drawn over the space the engine reserved at the bottom of
+// its body. Print uses the copies placed in the document instead.
+export const FootnoteOverlay = ({
+    pages,
+    visiblePages,
+    layout,
+    pageInsets,
+    footnotes,
+    fontFamily,
+    focusPos,
+    onFocused,
+    onChange,
+    onReturn,
+}: FootnoteOverlayProps) => (
+    <div className="page-overlay pointer-events-none absolute left-1/2 top-0 z-20 -translate-x-1/2 w-full">
+        {pageWindowIndices(visiblePages, 0, pages.length).map((index) => {
+            const notes = footnotes.get(index);
+            const height = pages[index].footnoteHeight;
+            if (!notes?.length || !height) {
+                return null;
+            }
+            return (
+                <div
+                    key={`footnotes-${index}`}
+                    className="page-footnotes pointer-events-auto absolute"
+                    style={{
+                        top: `${index * layout.stride + layout.marginTop + layout.contentHeight - pageInsets(index).bottom - height}px`,
+                        left: `${layout.marginLeft}px`,
+                        width: `${layout.contentWidth}px`,
+                        height: `${height}px`,
+                        fontFamily,
+                        ["--footnote-separator" as any]: `${FOOTNOTE_SEPARATOR}px`,
+                    }}
+                >
+                    {notes.map((note) => (
+                        <div key={`${note.pos}-${note.note}`} className="page-footnote">
+                            <sup className="page-footnote__number">{note.number}</sup>
+                            <FootnoteText
+                                note={note.note}
+                                autoFocus={note.pos === focusPos}
+                                onFocused={onFocused}
+                                onCommit={(next) => onChange(note.pos, next)}
+                                onReturn={() => onReturn(note.pos)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            );
+        })}
+    </div>
+);
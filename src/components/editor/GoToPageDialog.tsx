@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+
+import { cn } from "@/lib/utils";
+
+type GoToPageDialogProps = {
+    firstPage: number;
+    lastPage: number;
+    initialPage: number;
+    onCancel: () => void;
+    onGo: (pageNumber: number) => void;
+};
+
+export const GoToPageDialog = ({ firstPage, lastPage, initialPage, onCancel, onGo }: GoToPageDialogProps) => {
+    const [draft, setDraft] = useState(String(initialPage));
+    const pageNumber = Number.parseInt(draft, 10);
+    const isValid = Number.isFinite(pageNumber) && pageNumber >= firstPage && pageNumber <= lastPage;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 theme-modal-overlay"
+            onClick={onCancel}
+            role="presentation"
+        >
+            <form
+                className="w-full max-w-xs rounded-2xl bg-white p-6 shadow-2xl theme-modal"
+                onClick={(event) => event.stopPropagation()}
+                onKeyDown={(event) => {
+                    if (event.key === "Escape") onCancel();
+                }}
+                onSubmit={(event) => {
+                    event.preventDefault();
+                    if (isValid) onGo(pageNumber);
+                }}
+            >
+                <p className="text-xs font-semibold uppercase tracking-[0.35em] text-brand-500">Go to page</p>
+                <label className="mt-3 flex flex-col gap-1 text-xs font-semibold text-slate-600">
+                    <span className="uppercase tracking-[0.2em] text-[10px] text-slate-400">
+                        Page number ({firstPage}–{lastPage})
+                    </span>
+                    <input
+                        type="number"
+                        min={firstPage}
+                        max={lastPage}
+                        step={1}
+                        autoFocus
+                        value={draft}
+                        onChange={(event) => setDraft(event.target.value)}
+                        onFocus={(event) => event.target.select()}
+                        className="rounded-md border border-slate-200 px-2 py-1 text-sm text-slate-700 focus:border-brand-500 focus:outline-none theme-input"
+                    />
+                </label>
+                <div className="mt-6 flex justify-end gap-2">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 hover:border-slate-300"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!isValid}
+                        className={cn(
+                            "rounded-full bg-brand-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-brand-500",
+                            !isValid && "cursor-not-allowed opacity-40",
+                        )}
+                    >
+                        Go
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
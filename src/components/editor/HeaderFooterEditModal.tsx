@@ -0,0 +1,408 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import dayjs from "dayjs";
+import { EditorContent, useEditor } from "@tiptap/react";
+
+import { cn } from "@/lib/utils";
+import {
+    EMPTY_HEADER_FOOTER_CONTENT,
+    HEADER_FOOTER_FIELDS,
+    getActiveSections,
+    setHeaderFooterLayout,
+} from "./headerFooter";
+import type {
+    DocumentFields,
+    HeaderFooter,
+    HeaderFooterContent,
+    HeaderFooterLayout,
+    HeaderFooterRegion,
+    HeaderFooterSection,
+} from "./headerFooter";
+import { COLOR_SWATCHES } from "./ToolbarControls";
+import { getSectionLabel } from "./HeaderFooterOverlay";
+import { HEADER_FOOTER_EDITOR_EXTENSIONS } from "./headerFooterSchema";
+
+type HeaderFooterEditModalProps = {
+    region: HeaderFooterRegion;
+    section: HeaderFooterSection;
+    settings: HeaderFooter;
+    onSectionChange: (section: HeaderFooterSection) => void;
+    onSettingsChange: (settings: HeaderFooter) => void;
+    onChange: (section: HeaderFooterSection, value: HeaderFooterContent) => void;
+    fields: DocumentFields;
+    onFieldsChange: (fields: DocumentFields) => void;
+    onCancel: () => void;
+    onSave: (value?: HeaderFooterContent) => void;
+};
+
+const ALIGN_OPTIONS: Array<"left" | "center" | "right" | "justify"> = ["left", "center", "right", "justify"];
+
+export const HeaderFooterEditModal = ({
+    region,
+    section,
+    settings,
+    onSectionChange,
+    onSettingsChange,
+    onChange,
+    fields,
+    onFieldsChange,
+    onCancel,
+    onSave,
+}: HeaderFooterEditModalProps) => {
+    const title = region === "header" ? "Header" : "Footer";
+    const value = settings[region][section];
+    const sections = getActiveSections(settings);
+    const layout: HeaderFooterLayout = value.columns.length === 3 ? 3 : 1;
+    const [activeIndex, setActiveIndex] = useState(0);
+    const columnIndex = Math.min(activeIndex, value.columns.length - 1);
+    // Read by the editor's update handler, which is only created once.
+    const valueRef = useRef(value);
+    const sectionRef = useRef(section);
+    const columnIndexRef = useRef(columnIndex);
+
+    useEffect(() => {
+        valueRef.current = value;
+        sectionRef.current = section;
+        columnIndexRef.current = columnIndex;
+    }, [value, section, columnIndex]);
+
+    const editor = useEditor({
+        extensions: HEADER_FOOTER_EDITOR_EXTENSIONS,
+        content: value.columns[0].content,
+        autofocus: "end",
+        onUpdate({ editor: instance }) {
+            const current = valueRef.current;
+            const next = {
+                ...current,
+                columns: current.columns.map((column, index) =>
+                    index === columnIndexRef.current ? { ...column, content: instance.getJSON() } : column,
+                ),
+            };
+            valueRef.current = next;
+            onChange(sectionRef.current, next);
+        },
+    });
+
+    // The editor holds one column at a time; load it whenever another one is picked.
+    useEffect(() => {
+        if (!editor) return;
+        editor.commands.setContent(valueRef.current.columns[columnIndex].content, false);
+        editor.commands.focus("end");
+    }, [editor, section, columnIndex, layout]);
+
+    const switchSection = (next: HeaderFooterSection) => {
+        setActiveIndex(0);
+        onSectionChange(next);
+    };
+
+    const handleLayoutChange = (target: HeaderFooterLayout) => {
+        setActiveIndex(0);
+        onChange(section, setHeaderFooterLayout(value, target));
+    };
+
+    const handleSegmentSwitch = (index: number) => {
+        setActiveIndex(index);
+    };
+
+    const insertCurrentDateToModal = () => {
+        if (!editor) return;
+        // Insert plain text (no span tags) so the editor stores rendered text rather than raw HTML
+        const text = dayjs().format("MMMM D, YYYY");
+        editor.chain().focus().insertContent(text).run();
+    };
+
+    // A section that the change switches off is no longer on any page, so edit the default one.
+    const updateOptions = (patch: Partial<Pick<HeaderFooter, "differentFirstPage" | "differentOddEven">>) => {
+        const next = { ...settings, ...patch };
+        onSettingsChange(next);
+        if (!getActiveSections(next).includes(section)) switchSection("default");
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 theme-modal-overlay"
+            onClick={onCancel}
+            role="presentation"
+        >
+            <div
+                className="w-full max-w-3xl rounded-2xl bg-white p-6 shadow-2xl theme-modal"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <p className="text-xs font-semibold uppercase tracking-[0.35em] text-brand-500">{title} editor</p>
+                <h2 className="mt-1 text-lg font-semibold text-slate-900">
+                    {title} · {getSectionLabel(section, settings)}
+                </h2>
+
+                <div className="mt-4 flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                        <input
+                            type="checkbox"
+                            checked={settings.differentFirstPage}
+                            onChange={(event) => updateOptions({ differentFirstPage: event.target.checked })}
+                            className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                        />
+                        Different first page
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                        <input
+                            type="checkbox"
+                            checked={settings.differentOddEven}
+                            onChange={(event) => updateOptions({ differentOddEven: event.target.checked })}
+                            className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                        />
+                        Different odd &amp; even pages
+                    </label>
+                    <span className="text-xs text-slate-400">Options apply to both header and footer.</span>
+                </div>
+
+                {sections.length > 1 ? (
+                    <div className="mt-4 flex flex-wrap items-center gap-2">
+                        <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Section</span>
+                        {sections.map((option) => (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => switchSection(option)}
+                                className={cn(
+                                    "rounded-full border px-3 py-1 text-xs font-semibold",
+                                    section === option ? "border-brand-500 text-brand-600" : "border-slate-200 text-slate-500",
+                                )}
+                            >
+                                {getSectionLabel(option, settings)}
+                            </button>
+                        ))}
+                    </div>
+                ) : null}
+
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Layout</span>
+                    <button
+                        type="button"
+                        onClick={() => handleLayoutChange(1)}
+                        className={cn(
+                            "rounded-full border px-3 py-1 text-xs font-semibold",
+                            layout === 1 ? "border-brand-500 text-brand-600" : "border-slate-200 text-slate-500",
+                        )}
+                    >
+                        Single
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => handleLayoutChange(3)}
+                        className={cn(
+                            "rounded-full border px-3 py-1 text-xs font-semibold",
+                            layout === 3 ? "border-brand-500 text-brand-600" : "border-slate-200 text-slate-500",
+                        )}
+                    >
+                        Three Columns
+                    </button>
+                </div>
+
+                {layout === 3 ? (
+                    <div className="mt-4 flex gap-2">
+                        {["Left", "Center", "Right"].map((label, idx) => (
+                            <button
+                                key={label}
+                                type="button"
+                                onClick={() => handleSegmentSwitch(idx)}
+                                className={cn(
+                                    "flex-1 rounded-lg border px-3 py-2 text-xs font-semibold uppercase tracking-[0.2em]",
+                                    columnIndex === idx
+                                        ? "border-brand-500 bg-brand-50 text-brand-600"
+                                        : "border-slate-200 text-slate-500",
+                                )}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                ) : null}
+
+                <div className="mt-4 flex flex-wrap items-center gap-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+                    {editor ? (
+                        <>
+                            <button
+                                type="button"
+                                onClick={() => editor.chain().focus().toggleBold().run()}
+                                className={cn(
+                                    "rounded-md px-2 py-1 text-xs font-semibold",
+                                    editor.isActive("bold") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
+                                )}
+                            >
+                                Bold
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => editor.chain().focus().toggleItalic().run()}
+                                className={cn(
+                                    "rounded-md px-2 py-1 text-xs font-semibold",
+                                    editor.isActive("italic") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
+                                )}
+                            >
+                                Italic
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => editor.chain().focus().toggleUnderline().run()}
+                                className={cn(
+                                    "rounded-md px-2 py-1 text-xs font-semibold",
+                                    editor.isActive("underline") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
+                                )}
+                            >
+                                Underline
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => editor.chain().focus().toggleStrike().run()}
+                                className={cn(
+                                    "rounded-md px-2 py-1 text-xs font-semibold",
+                                    editor.isActive("strike") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
+                                )}
+                            >
+                                Strike
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => editor.chain().focus().toggleHighlight().run()}
+                                className={cn(
+                                    "rounded-md px-2 py-1 text-xs font-semibold",
+                                    editor.isActive("highlight") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
+                                )}
+                            >
+                                Highlight
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => editor.chain().focus().toggleBulletList().run()}
+                                className={cn(
+                                    "rounded-md px-2 py-1 text-xs font-semibold",
+                                    editor.isActive("bulletList") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
+                                )}
+                            >
+                                Bullet
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => editor.chain().focus().toggleOrderedList().run()}
+                                className={cn(
+                                    "rounded-md px-2 py-1 text-xs font-semibold",
+                                    editor.isActive("orderedList") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
+                                )}
+                            >
+                                Numbered
+                            </button>
+                            <div className="flex items-center gap-1">
+                                {ALIGN_OPTIONS.map((align) => (
+                                    <button
+                                        type="button"
+                                        key={align}
+                                        onClick={() => editor.chain().focus().setTextAlign(align).run()}
+                                        className={cn(
+                                            "rounded-md px-2 py-1 text-xs font-semibold capitalize",
+                                            editor.isActive({ textAlign: align })
+                                                ? "bg-slate-900 text-white"
+                                                : "bg-white text-slate-600",
+                                        )}
+                                    >
+                                        {align}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex items-center gap-1">
+                                {COLOR_SWATCHES.map((swatch) => (
+                                    <button
+                                        type="button"
+                                        key={swatch.value}
+                                        onClick={() => editor.chain().focus().setColor(swatch.value).run()}
+                                        className="h-5 w-5 rounded-full border border-white shadow"
+                                        style={{ backgroundColor: swatch.value }}
+                                        title={swatch.label}
+                                    />
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => editor.chain().focus().unsetColor().run()}
+                                    className="rounded-full border border-slate-300 px-2 py-0.5 text-[10px] text-slate-500"
+                                >
+                                    Reset Color
+                                </button>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={insertCurrentDateToModal}
+                                className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600"
+                            >
+                                Insert Date
+                            </button>
+                        </>
+                    ) : null}
+                </div>
+
+                <div className="mt-4 rounded-xl border border-slate-200 bg-white p-4 shadow-inner">
+                    {editor ? <EditorContent editor={editor} /> : null}
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Fields</span>
+                    {HEADER_FOOTER_FIELDS.map(({ field, label }) => (
+                        <button
+                            key={field}
+                            type="button"
+                            disabled={!editor}
+                            onClick={() => editor?.chain().focus().insertHeaderFooterField(field).run()}
+                            className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 hover:border-brand-300"
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                    <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500">
+                        Client name
+                        <input
+                            type="text"
+                            value={fields.clientName}
+                            onChange={(event) => onFieldsChange({ ...fields, clientName: event.target.value })}
+                            className="rounded-md border border-slate-200 px-2 py-1 text-sm font-normal text-slate-800 focus:border-brand-400 focus:outline-none theme-input"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500">
+                        Case / receipt number
+                        <input
+                            type="text"
+                            value={fields.receiptNumber}
+                            onChange={(event) => onFieldsChange({ ...fields, receiptNumber: event.target.value })}
+                            placeholder="WAC-25-123-45678"
+                            className="rounded-md border border-slate-200 px-2 py-1 text-sm font-normal text-slate-800 focus:border-brand-400 focus:outline-none theme-input"
+                        />
+                    </label>
+                </div>
+
+                <div className="mt-6 flex justify-end gap-2">
+                    <button
+                        type="button"
+                        onClick={() => onSave(EMPTY_HEADER_FOOTER_CONTENT)}
+                        className="rounded-full border border-red-200 bg-red-50 px-4 py-2 text-sm font-semibold text-red-600 hover:border-red-300"
+                    >
+                        Delete
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 hover:border-slate-300"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onSave(value)}
+                        className="rounded-full bg-brand-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-brand-500"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
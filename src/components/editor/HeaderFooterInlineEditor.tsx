@@ -0,0 +1,165 @@
+"use client";
+
+import type { Editor, JSONContent } from "@tiptap/core";
+import { useEffect, useRef } from "react";
+import { EditorContent, useEditor } from "@tiptap/react";
+
+import { cn } from "@/lib/utils";
+import type { PageLayout } from "./pageSetup";
+import { HEADER_FOOTER_FIELDS, isHeaderFooterField } from "./headerFooter";
+import type {
+    HeaderFooterColumn,
+    HeaderFooterContent,
+    HeaderFooterField as HeaderFooterFieldName,
+    HeaderFooterRegion,
+} from "./headerFooter";
+import { HEADER_FOOTER_TEXT_CLASSES } from "./HeaderFooterOverlay";
+import { HEADER_FOOTER_EDITOR_EXTENSIONS } from "./headerFooterSchema";
+
+type HeaderFooterInlineColumnProps = {
+    region: HeaderFooterRegion;
+    column: HeaderFooterColumn;
+    autofocus: boolean;
+    onChange: (content: JSONContent) => void;
+    onFocus: (editor: Editor) => void;
+    onTransaction: () => void;
+    onExit: () => void;
+};
+
+// One column typed into on the page. The editor is created once, so its
+// handlers read the latest props through a ref.
+const HeaderFooterInlineColumn = ({ region, column, autofocus, ...handlers }: HeaderFooterInlineColumnProps) => {
+    const handlersRef = useRef(handlers);
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    });
+
+    const editor = useEditor({
+        extensions: HEADER_FOOTER_EDITOR_EXTENSIONS,
+        content: column.content,
+        autofocus: autofocus ? "end" : false,
+        editorProps: {
+            attributes: { "aria-label": region === "header" ? "Header" : "Footer" },
+            handleKeyDown: (_view, event) => {
+                if (event.key !== "Escape") return false;
+                handlersRef.current.onExit();
+                return true;
+            },
+        },
+        onUpdate: ({ editor: instance }) => handlersRef.current.onChange(instance.getJSON()),
+        onFocus: ({ editor: instance }) => handlersRef.current.onFocus(instance),
+        onTransaction: () => handlersRef.current.onTransaction(),
+    });
+
+    return (
+        <EditorContent
+            editor={editor}
+            className={cn("min-w-0 flex-1", HEADER_FOOTER_TEXT_CLASSES[region])}
+            style={{ textAlign: column.align }}
+        />
+    );
+};
+
+type HeaderFooterInlineEditorProps = {
+    region: HeaderFooterRegion;
+    pageIndex: number;
+    sectionLabel: string;
+    layout: PageLayout;
+    content: HeaderFooterContent;
+    // Drawn height of the region; the editor grows past it while the content does.
+    height: number;
+    onColumnChange: (index: number, content: JSONContent) => void;
+    onFocusEditor: (editor: Editor) => void;
+    onTransaction: () => void;
+    onInsertField: (field: HeaderFooterFieldName) => void;
+    onOptions: () => void;
+    onExit: () => void;
+};
+
+// The header or footer of one page, typed into where it is drawn. Fields show
+// as chips here and resolve everywhere else; the modal keeps the options.
+export const HeaderFooterInlineEditor = ({
+    region,
+    pageIndex,
+    sectionLabel,
+    layout,
+    content,
+    height,
+    onColumnChange,
+    onFocusEditor,
+    onTransaction,
+    onInsertField,
+    onOptions,
+    onExit,
+}: HeaderFooterInlineEditorProps) => {
+    const pageTop = pageIndex * layout.stride;
+    const title = region === "header" ? "Header" : "Footer";
+    const bar = (
+        <div
+            className={cn(
+                "header-footer-inline__bar absolute left-4 flex items-center gap-2 rounded-md border border-brand-200 bg-white px-2 py-1 text-[10px] font-semibold uppercase tracking-[0.25em] text-brand-600 shadow theme-overlay",
+                region === "header" ? "top-full mt-1" : "bottom-full mb-1",
+            )}
+        >
+            <span>
+                {title} · {sectionLabel}
+            </span>
+            <select
+                value=""
+                onChange={(event) => {
+                    if (isHeaderFooterField(event.target.value)) onInsertField(event.target.value);
+                }}
+                aria-label="Insert field"
+                className="rounded border border-slate-200 px-1 py-0.5 text-[10px] normal-case tracking-normal text-slate-600 focus:border-brand-500 focus:outline-none theme-input"
+            >
+                <option value="">Insert field…</option>
+                {HEADER_FOOTER_FIELDS.map(({ field, label }) => (
+                    <option key={field} value={field}>
+                        {label}
+                    </option>
+                ))}
+            </select>
+            <button type="button" onClick={onOptions} className="rounded px-1 hover:bg-brand-50">
+                Options
+            </button>
+            <button type="button" onClick={onExit} title="Back to the body (Esc)" className="rounded px-1 hover:bg-brand-50">
+                Close
+            </button>
+        </div>
+    );
+
+    return (
+        <div
+            className={cn(
+                "header-footer-inline absolute left-1/2 z-40 flex w-full -translate-x-1/2 bg-white ring-2 ring-brand-300 theme-overlay",
+                region === "header" ? "items-start rounded-t-md" : "-translate-y-full items-end rounded-b-md",
+            )}
+            style={{
+                top: `${region === "header" ? pageTop : pageTop + layout.pageHeight}px`,
+                minHeight: `${height}px`,
+                padding:
+                    region === "header"
+                        ? `${layout.headerDistance}px ${layout.marginRight}px 8px ${layout.marginLeft}px`
+                        : `8px ${layout.marginRight}px ${layout.footerDistance}px ${layout.marginLeft}px`,
+            }}
+        >
+            <div className="mx-auto flex w-full max-w-[95%] items-start justify-between">
+                {content.columns.map((column, index) => (
+                    <div key={index} className={cn("flex min-w-0 flex-1", content.columns.length > 1 && "px-2")}>
+                        <HeaderFooterInlineColumn
+                            region={region}
+                            column={column}
+                            autofocus={index === 0}
+                            onChange={(next) => onColumnChange(index, next)}
+                            onFocus={onFocusEditor}
+                            onTransaction={onTransaction}
+                            onExit={onExit}
+                        />
+                    </div>
+                ))}
+            </div>
+            {bar}
+        </div>
+    );
+};
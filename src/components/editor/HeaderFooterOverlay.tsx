@@ -0,0 +1,280 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import { cn } from "@/lib/utils";
+import { pageWindowIndices } from "./pageSetup";
+import type { PageLayout, PageWindow } from "./pageSetup";
+import {
+    EMPTY_HEADER_FOOTER_HEIGHTS,
+    HEADER_FOOTER_SECTIONS,
+    getPageSection,
+    hasHeaderFooterContent,
+    resolveFields,
+} from "./headerFooter";
+import type {
+    HeaderFooter,
+    HeaderFooterContent,
+    HeaderFooterFieldValues,
+    HeaderFooterHeights,
+    HeaderFooterRegion,
+    HeaderFooterSection,
+} from "./headerFooter";
+import { renderHeaderFooterHtml } from "./headerFooterSchema";
+
+const asHtml = (value: string) => ({ __html: value && value.trim().length ? value : "&nbsp;" });
+
+export const HEADER_FOOTER_TEXT_CLASSES: Record<HeaderFooterRegion, string> = {
+    header: "text-[13px] font-semibold text-slate-800",
+    footer: "text-[12px] font-medium text-slate-700",
+};
+
+// What the overlay placeholder and the modal call each section under the current options.
+export const getSectionLabel = (section: HeaderFooterSection, settings: HeaderFooter) => {
+    if (section === "first") return "First page";
+    if (section === "even") return "Even pages";
+    if (settings.differentOddEven) return "Odd pages";
+    return settings.differentFirstPage ? "Other pages" : "All pages";
+};
+
+type HeaderFooterTextProps = {
+    region: HeaderFooterRegion;
+    content: HeaderFooterContent;
+    values: HeaderFooterFieldValues;
+};
+
+// One header or footer, as a single column or left, center and right columns.
+// Columns wrap; the region grows to fit them (see `HeaderFooterMeasure`).
+const HeaderFooterText = ({ region, content, values }: HeaderFooterTextProps) => (
+    <div className="mx-auto flex w-full max-w-[95%] items-start justify-between">
+        {content.columns.map((column, i) => (
+            <div
+                key={i}
+                className={cn(
+                    "min-w-0 flex-1 break-words",
+                    content.columns.length > 1 && "px-2",
+                    HEADER_FOOTER_TEXT_CLASSES[region],
+                )}
+                style={{ textAlign: column.align }}
+                dangerouslySetInnerHTML={asHtml(resolveFields(renderHeaderFooterHtml(column.content), values))}
+            />
+        ))}
+    </div>
+);
+
+type HeaderFooterOverlayProps = {
+    pageCount: number;
+    visiblePages: PageWindow;
+    layout: PageLayout;
+    headerFooter: HeaderFooter;
+    // Drawn height of every region, from `getRegionHeights`.
+    heights: HeaderFooterHeights;
+    startNumber: number;
+    values: Omit<HeaderFooterFieldValues, "page">;
+    onHeaderDoubleClick: (pageIndex: number) => void;
+    onFooterDoubleClick: (pageIndex: number) => void;
+    onHeaderClick?: (pageIndex: number) => void;
+    onFooterClick?: (pageIndex: number) => void;
+};
+
+export const HeaderFooterOverlay = ({
+    pageCount,
+    visiblePages,
+    layout,
+    headerFooter,
+    heights,
+    startNumber,
+    values,
+    onHeaderDoubleClick,
+    onFooterDoubleClick,
+    onHeaderClick,
+    onFooterClick,
+}: HeaderFooterOverlayProps) => (
+    <div className="pointer-events-none absolute left-1/2 top-0 z-20 -translate-x-1/2 w-full">
+        {pageWindowIndices(visiblePages, 0, pageCount).map((index) => {
+            const pageTop = index * layout.stride;
+            const section = getPageSection(headerFooter, index, startNumber);
+            const sectionLabel = getSectionLabel(section, headerFooter).toLowerCase();
+            const header = headerFooter.header[section];
+            const footer = headerFooter.footer[section];
+            const hasHeader = hasHeaderFooterContent(header);
+            const hasFooter = hasHeaderFooterContent(footer);
+            const footerHeight = heights.footer[section];
+            const footerTop = pageTop + layout.pageHeight - footerHeight;
+            const pageValues = { ...values, page: String(startNumber + index) };
+
+            return (
+                <div key={`hf-${index}`}>
+                    <div
+                        className={cn(
+                            "pointer-events-auto absolute left-1/2 flex w-full -translate-x-1/2 items-start justify-center overflow-hidden rounded-t-md bg-white px-4 py-2 text-slate-600 shadow theme-overlay",
+                            hasHeader ? "border-b-2 border-slate-700" : ""
+                        )}
+                        style={{
+                            top: `${pageTop}px`,
+                            height: `${heights.header[section]}px`,
+                            padding: `${layout.headerDistance}px ${layout.marginRight}px 0 ${layout.marginLeft}px`,
+                        }}
+                        onDoubleClick={() => onHeaderDoubleClick(index)}
+                        onClick={() => onHeaderClick?.(index)}
+                        role="button"
+                        tabIndex={0}
+                    >
+                        <div className="text-center w-full">
+                            {hasHeader ? (
+                                <HeaderFooterText region="header" content={header} values={pageValues} />
+                            ) : (
+                                <span className="text-[9px] font-semibold uppercase tracking-[0.25em] text-slate-400">
+                                    Double click to edit header ({sectionLabel})
+                                </span>
+                            )}
+                        </div>
+                    </div>
+
+                    <div
+                        className={cn(
+                            "pointer-events-auto absolute left-1/2 flex w-full -translate-x-1/2 items-end justify-center overflow-hidden rounded-b-md bg-white text-slate-600 shadow theme-overlay",
+                            hasFooter ? "border-t-2 border-slate-700" : ""
+                        )}
+                        style={{
+                            top: `${footerTop}px`,
+                            height: `${footerHeight}px`,
+                            padding: `0 ${layout.marginRight}px ${layout.footerDistance}px ${layout.marginLeft}px`,
+                        }}
+                        onDoubleClick={() => onFooterDoubleClick(index)}
+                        onClick={() => onFooterClick?.(index)}
+                        role="button"
+                        tabIndex={0}
+                    >
+                        <div className="text-center w-full">
+                            {hasFooter ? (
+                                <HeaderFooterText region="footer" content={footer} values={pageValues} />
+                            ) : (
+                                <span className="text-[9px] font-semibold uppercase tracking-[0.25em] text-slate-400 text-center">
+                                    Double click to edit footer ({sectionLabel})
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            );
+        })}
+    </div>
+);
+
+type HeaderFooterPrintProps = {
+    pageCount: number;
+    layout: PageLayout;
+    headerFooter: HeaderFooter;
+    heights: HeaderFooterHeights;
+    startNumber: number;
+    values: Omit<HeaderFooterFieldValues, "page">;
+};
+
+// Printed headers and footers. Each box is exactly one page area tall, so
+// print fragmentation puts box N on sheet N; the regions hang off its edges
+// into the @page margins. Hidden on screen, where the overlay draws them.
+export const HeaderFooterPrint = ({ pageCount, layout, headerFooter, heights, startNumber, values }: HeaderFooterPrintProps) => (
+    <div aria-hidden className="header-footer-print">
+        {Array.from({ length: pageCount }, (_, index) => {
+            const section = getPageSection(headerFooter, index, startNumber);
+            const header = headerFooter.header[section];
+            const footer = headerFooter.footer[section];
+            const pageValues = { ...values, page: String(startNumber + index) };
+            return (
+                <div
+                    key={`hf-print-${index}`}
+                    className="header-footer-print__page"
+                    style={{
+                        top: `${index * layout.contentHeight}px`,
+                        left: `${-layout.marginLeft}px`,
+                        width: `${layout.pageWidth}px`,
+                        height: `${layout.contentHeight}px`,
+                    }}
+                >
+                    {hasHeaderFooterContent(header) ? (
+                        <div
+                            className="header-footer-print__header"
+                            style={{
+                                top: `${-layout.marginTop}px`,
+                                height: `${heights.header[section]}px`,
+                                padding: `${layout.headerDistance}px ${layout.marginRight}px 0 ${layout.marginLeft}px`,
+                            }}
+                        >
+                            <HeaderFooterText region="header" content={header} values={pageValues} />
+                        </div>
+                    ) : null}
+                    {hasHeaderFooterContent(footer) ? (
+                        <div
+                            className="header-footer-print__footer"
+                            style={{
+                                bottom: `${-layout.marginBottom}px`,
+                                height: `${heights.footer[section]}px`,
+                                padding: `0 ${layout.marginRight}px ${layout.footerDistance}px ${layout.marginLeft}px`,
+                            }}
+                        >
+                            <HeaderFooterText region="footer" content={footer} values={pageValues} />
+                        </div>
+                    ) : null}
+                </div>
+            );
+        })}
+    </div>
+);
+
+export const areHeaderFooterHeightsEqual = (a: HeaderFooterHeights, b: HeaderFooterHeights) =>
+    HEADER_FOOTER_SECTIONS.every((section) => a.header[section] === b.header[section] && a.footer[section] === b.footer[section]);
+
+type HeaderFooterMeasureProps = {
+    layout: PageLayout;
+    headerFooter: HeaderFooter;
+    values: Omit<HeaderFooterFieldValues, "page">;
+    onMeasure: (heights: HeaderFooterHeights) => void;
+};
+
+// Hidden copy of every section's header and footer at the width a page gives
+// them, numbered as the last page so the widest number is measured. Edits and
+// late fonts resize the copies, which reports the new heights.
+export const HeaderFooterMeasure = ({ layout, headerFooter, values, onMeasure }: HeaderFooterMeasureProps) => {
+    const ref = useRef<HTMLDivElement | null>(null);
+    const pageValues = { ...values, page: values.pages };
+
+    useEffect(() => {
+        const root = ref.current;
+        if (!root) return;
+        const report = () => {
+            const heights: HeaderFooterHeights = {
+                header: { ...EMPTY_HEADER_FOOTER_HEIGHTS.header },
+                footer: { ...EMPTY_HEADER_FOOTER_HEIGHTS.footer },
+            };
+            root.querySelectorAll<HTMLElement>("[data-measure-region]").forEach((element) => {
+                const region = element.dataset.measureRegion as HeaderFooterRegion;
+                const section = element.dataset.measureSection as HeaderFooterSection;
+                heights[region][section] = Math.ceil(element.getBoundingClientRect().height);
+            });
+            onMeasure(heights);
+        };
+        report();
+        if (typeof ResizeObserver === "undefined") return;
+        const observer = new ResizeObserver(report);
+        root.querySelectorAll("[data-measure-region]").forEach((element) => observer.observe(element));
+        return () => observer.disconnect();
+    }, [onMeasure]);
+
+    return (
+        <div
+            ref={ref}
+            aria-hidden
+            className="header-footer-measure"
+            style={{ width: `${layout.contentWidth}px` }}
+        >
+            {(["header", "footer"] as const).flatMap((region) =>
+                HEADER_FOOTER_SECTIONS.map((section) => (
+                    <div key={`${region}-${section}`} data-measure-region={region} data-measure-section={section}>
+                        <HeaderFooterText region={region} content={headerFooter[region][section]} values={pageValues} />
+                    </div>
+                )),
+            )}
+        </div>
+    );
+};
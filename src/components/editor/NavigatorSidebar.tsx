@@ -0,0 +1,283 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import { ChevronDown, ChevronRight, PanelLeftClose, PanelLeftOpen } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import type { PageLayout } from "./pageSetup";
+import type { OutlineEntry } from "./outline";
+import { HeaderIconButton } from "./ToolbarControls";
+
+export type NavigatorView = "outline" | "pages";
+
+type NavigatorSidebarProps = {
+    open: boolean;
+    view: NavigatorView;
+    onToggle: () => void;
+    onViewChange: (view: NavigatorView) => void;
+    children: ReactNode;
+};
+
+const NAVIGATOR_VIEWS: Array<{ value: NavigatorView; label: string }> = [
+    { value: "outline", label: "Outline" },
+    { value: "pages", label: "Pages" },
+];
+
+// Sits below the fixed toolbar while the page stack scrolls past it.
+export const NavigatorSidebar = ({ open, view, onToggle, onViewChange, children }: NavigatorSidebarProps) => {
+    if (!open) {
+        return (
+            <aside className="theme-panel sticky top-[148px] flex-none rounded-xl border border-slate-200 bg-white p-1.5 shadow-sm">
+                <HeaderIconButton icon={PanelLeftOpen} label="Show navigator" onClick={onToggle} />
+            </aside>
+        );
+    }
+
+    return (
+        <aside className="theme-panel sticky top-[148px] flex max-h-[calc(100vh-164px)] w-48 flex-none flex-col rounded-xl border border-slate-200 bg-white shadow-sm">
+            <div className="flex items-center justify-between gap-2 border-b border-slate-200 px-2 py-2">
+                <div className="flex gap-1">
+                    {NAVIGATOR_VIEWS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            className={cn(
+                                "rounded-md px-2 py-1 text-[11px] font-semibold uppercase tracking-[0.15em]",
+                                option.value === view ? "bg-slate-100 text-slate-700" : "text-slate-400 hover:text-slate-600",
+                            )}
+                            onClick={() => onViewChange(option.value)}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <HeaderIconButton icon={PanelLeftClose} label="Hide navigator" onClick={onToggle} />
+            </div>
+            {children}
+        </aside>
+    );
+};
+
+type OutlineListProps = {
+    entries: OutlineEntry[];
+    pageNumbers: Array<number | null>;
+    onNavigate: (entry: OutlineEntry) => void;
+    onMove: (entry: OutlineEntry, target: number) => void;
+};
+
+// Headings and section titles. Click to jump, drag onto another entry to move
+// the section in front of it, or onto the end zone to move it to the end of
+// the document.
+export const OutlineList = ({ entries, pageNumbers, onNavigate, onMove }: OutlineListProps) => {
+    const [collapsed, setCollapsed] = useState<Set<number>>(() => new Set());
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const documentEnd = entries.reduce((end, entry) => Math.max(end, entry.end), 0);
+    const toggleCollapsed = (index: number) => {
+        setCollapsed((current) => {
+            const next = new Set(current);
+            if (next.has(index)) {
+                next.delete(index);
+            } else {
+                next.add(index);
+            }
+            return next;
+        });
+    };
+    const finishDrag = () => {
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+    const drop = (target: number) => {
+        if (dragIndex !== null && entries[dragIndex]) onMove(entries[dragIndex], target);
+        finishDrag();
+    };
+
+    let hiddenUntil = -1;
+
+    return (
+        <ol className="flex-1 overflow-y-auto px-1.5 py-2 text-xs">
+            {entries.length ? null : (
+                <li className="px-2 py-1 text-slate-400">Headings and section titles appear here.</li>
+            )}
+            {entries.map((entry, index) => {
+                if (entry.pos < hiddenUntil) return null;
+                const hasChildren = index + 1 < entries.length && entries[index + 1].pos < entry.end;
+                const isCollapsed = hasChildren && collapsed.has(index);
+                if (isCollapsed) hiddenUntil = entry.end;
+                const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+                return (
+                    <li
+                        key={`${index}-${entry.text}`}
+                        draggable
+                        onDragStart={(event) => {
+                            event.dataTransfer.effectAllowed = "move";
+                            setDragIndex(index);
+                        }}
+                        onDragOver={(event) => {
+                            if (dragIndex === null) return;
+                            event.preventDefault();
+                            setDropIndex(index);
+                        }}
+                        onDrop={(event) => {
+                            event.preventDefault();
+                            drop(entry.pos);
+                        }}
+                        onDragEnd={finishDrag}
+                        className={cn(
+                            "flex items-center gap-1 rounded-md border-t-2 border-transparent pr-1.5 text-slate-600 hover:bg-slate-100",
+                            dropIndex === index && dragIndex !== index && "border-brand-500",
+                            dragIndex === index && "opacity-50",
+                        )}
+                        style={{ paddingLeft: `${(entry.level - 1) * 10}px` }}
+                    >
+                        <button
+                            type="button"
+                            aria-label={isCollapsed ? "Expand section" : "Collapse section"}
+                            className={cn("flex h-5 w-4 flex-none items-center justify-center", !hasChildren && "invisible")}
+                            onClick={() => toggleCollapsed(index)}
+                        >
+                            <Chevron className="h-3 w-3" />
+                        </button>
+                        <button
+                            type="button"
+                            title={entry.text}
+                            className={cn(
+                                "min-w-0 flex-1 truncate py-1 text-left",
+                                entry.kind === "heading" && entry.level === 1 && "font-semibold text-slate-800",
+                            )}
+                            onClick={() => onNavigate(entry)}
+                        >
+                            {entry.text}
+                        </button>
+                        <span className="flex-none tabular-nums text-slate-400">{pageNumbers[index] ?? ""}</span>
+                    </li>
+                );
+            })}
+            {dragIndex !== null ? (
+                <li
+                    onDragOver={(event) => {
+                        event.preventDefault();
+                        setDropIndex(entries.length);
+                    }}
+                    onDrop={(event) => {
+                        event.preventDefault();
+                        drop(documentEnd);
+                    }}
+                    className={cn(
+                        "mt-1 rounded-md border border-dashed border-slate-300 px-2 py-1 text-slate-400",
+                        dropIndex === entries.length && "border-brand-500 text-brand-600",
+                    )}
+                >
+                    Move to end
+                </li>
+            ) : null}
+        </ol>
+    );
+};
+
+type PageThumbnailsProps = {
+    pages: string[];
+    activePage: number;
+    startNumber: number;
+    layout: PageLayout;
+    fontFamily?: string;
+    lineHeight: string;
+    snapToGrid: boolean;
+    onSelect: (pageIndex: number) => void;
+};
+
+const THUMBNAIL_WIDTH = 136;
+
+// Each page's share of the document, drawn on a sheet of the page layout and
+// scaled down. Off-screen thumbnails skip rendering, as structural pages do.
+export const PageThumbnails = ({
+    pages,
+    activePage,
+    startNumber,
+    layout,
+    fontFamily,
+    lineHeight,
+    snapToGrid,
+    onSelect,
+}: PageThumbnailsProps) => {
+    const listRef = useRef<HTMLOListElement>(null);
+    const scale = THUMBNAIL_WIDTH / layout.pageWidth;
+    const thumbnailHeight = Math.round(layout.pageHeight * scale);
+
+    // Keep the active page in view without scrolling the window.
+    useEffect(() => {
+        const list = listRef.current;
+        const item = list?.children[activePage - 1];
+        if (!list || !(item instanceof HTMLElement)) return;
+        if (item.offsetTop < list.scrollTop) {
+            list.scrollTop = item.offsetTop;
+        } else if (item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+            list.scrollTop = item.offsetTop + item.offsetHeight - list.clientHeight;
+        }
+    }, [activePage, pages.length]);
+
+    return (
+        <ol ref={listRef} className="relative flex-1 space-y-3 overflow-y-auto px-3 py-3">
+            {pages.map((html, index) => (
+                <li
+                    key={`thumbnail-${index}`}
+                    style={{
+                        contentVisibility: "auto",
+                        containIntrinsicSize: `${THUMBNAIL_WIDTH}px ${thumbnailHeight + 20}px`,
+                    }}
+                >
+                    <button
+                        type="button"
+                        aria-label={`Go to page ${startNumber + index}`}
+                        aria-current={index === activePage - 1 ? "page" : undefined}
+                        className="group flex w-full flex-col items-center gap-1"
+                        onClick={() => onSelect(index)}
+                    >
+                        <span
+                            className={cn(
+                                "relative block overflow-hidden rounded-sm border bg-white shadow-sm transition",
+                                index === activePage - 1
+                                    ? "border-brand-500 ring-2 ring-brand-500/40"
+                                    : "border-slate-200 group-hover:border-slate-400",
+                            )}
+                            style={{ width: `${THUMBNAIL_WIDTH}px`, height: `${thumbnailHeight}px` }}
+                        >
+                            <span
+                                aria-hidden
+                                className="pointer-events-none absolute left-0 top-0 block select-none overflow-hidden"
+                                style={{
+                                    width: `${layout.pageWidth}px`,
+                                    height: `${layout.pageHeight}px`,
+                                    padding: `${layout.marginTop}px ${layout.marginRight}px ${layout.marginBottom}px ${layout.marginLeft}px`,
+                                    transform: `scale(${scale})`,
+                                    transformOrigin: "top left",
+                                }}
+                            >
+                                <span
+                                    className={cn("tiptap block h-full overflow-hidden text-left", snapToGrid && "pleading-grid")}
+                                    style={{
+                                        fontFamily,
+                                        lineHeight,
+                                        ["--editor-line-height" as any]: lineHeight,
+                                    }}
+                                    dangerouslySetInnerHTML={{ __html: html }}
+                                />
+                            </span>
+                        </span>
+                        <span
+                            className={cn(
+                                "text-[11px] tabular-nums",
+                                index === activePage - 1 ? "font-semibold text-brand-600" : "text-slate-400",
+                            )}
+                        >
+                            {startNumber + index}
+                        </span>
+                    </button>
+                </li>
+            ))}
+        </ol>
+    );
+};
@@ -0,0 +1,309 @@
+"use client";
+
+import { INCH_IN_PX, pageWindowIndices } from "./pageSetup";
+import type { PageLayout, PageWindow, PleadingPaper } from "./pageSetup";
+import type { PageInsets } from "./paginate";
+
+type PageOverlayProps = {
+    pageCount: number;
+    visiblePages: PageWindow;
+    layout: PageLayout;
+};
+
+export const PageOverlay = ({ pageCount, visiblePages, layout }: PageOverlayProps) => {
+    const overlayHeight = Math.max(
+        pageCount * layout.pageHeight + Math.max(0, pageCount - 1) * layout.gap,
+        layout.pageHeight,
+    );
+
+    return (
+        <div
+            aria-hidden
+            className="pointer-events-none absolute left-1/2 top-0 z-0 -translate-x-1/2 -translate-y-px"
+            style={{ height: overlayHeight, width: "100%" }}
+        >
+            {pageWindowIndices(visiblePages, 0, pageCount).map((index) => {
+                const top = index * layout.stride;
+                return (
+                    <div
+                        key={`page-bg-${index}`}
+                        className="absolute w-full rounded-[18px] border border-slate-200 bg-white shadow-[0_30px_70px_rgba(15,23,42,0.18)] theme-page"
+                        style={{ height: `${layout.pageHeight}px`, top: `${top}px` }}
+                    />
+                );
+            })}
+
+            {pageWindowIndices(visiblePages, 0, pageCount - 1).map((index) => {
+                const top = (index + 1) * layout.pageHeight + index * layout.gap;
+                return (
+                    <div
+                        key={`page-gap-${index}`}
+                        className="absolute flex w-full justify-center"
+                        style={{ top: `${top}px`, height: `${layout.gap}px` }}
+                    >
+                        <div className="h-full w-[90%] rounded-full bg-slate-200/70 blur-xl theme-gap" />
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+type PageGapMaskProps = {
+    pageCount: number;
+    visiblePages: PageWindow;
+    layout: PageLayout;
+};
+
+export const PageGapMask = ({ pageCount, visiblePages, layout }: PageGapMaskProps) => (
+    <div aria-hidden className="pointer-events-none absolute left-1/2 top-0 z-20 -translate-x-1/2 w-full">
+        {pageWindowIndices(visiblePages, 0, pageCount - 1).map((index) => {
+            const top = (index + 1) * layout.pageHeight + index * layout.gap;
+            const height = layout.gap;
+            return (
+                <div
+                    key={`gap-mask-${index}`}
+                    className="absolute left-0 right-0 overflow-hidden"
+                    style={{ top: `${top}px`, height: `${height}px` }}
+                >
+                    <div className="mx-auto h-full w-full rounded-[18px] bg-slate-100 shadow-[inset_0_10px_30px_rgba(15,23,42,0.10)] theme-page" />
+                    <div className="absolute inset-0 bg-slate-100 theme-page" />
+                </div>
+            );
+        })}
+    </div>
+);
+
+type PageFooterOverlaysProps = {
+    pageCount: number;
+    visiblePages: PageWindow;
+    startNumber: number;
+    layout: PageLayout;
+};
+
+export const PageFooterOverlays = ({ pageCount, visiblePages, startNumber, layout }: PageFooterOverlaysProps) => (
+    <div aria-hidden className="page-footer-overlay pointer-events-none absolute inset-0 z-30">
+        {pageWindowIndices(visiblePages, 0, pageCount).map((index) => {
+            const pageTop = index * layout.stride;
+            const overlayTop = pageTop + layout.pageHeight - layout.marginBottom;
+
+            return (
+                <div
+                    key={`divider-${index}`}
+                    className="absolute left-1/2 -translate-x-1/2 w-full"
+                    style={{ top: `${overlayTop}px`, height: `${layout.marginBottom}px` }}
+                >
+                    <div className="relative h-full">
+                        <div className="absolute right-4 bottom-4 flex items-end justify-end">
+                            <span className="text-[12px] font-semibold uppercase tracking-[0.45em] text-slate-500 theme-muted">
+                                Page {startNumber + index}
+                            </span>
+                        </div>
+                    </div>
+                </div>
+            );
+        })}
+    </div>
+);
+
+type PleadingColumnProps = {
+    layout: PageLayout;
+    pleading: PleadingPaper;
+    pitch: number;
+};
+
+// Line numbers and the double rule for one sheet, laid out from its top-left
+// corner across the left margin.
+export const PleadingColumn = ({ layout, pleading, pitch }: PleadingColumnProps) => (
+    <div className="pleading-column" style={{ width: `${layout.marginLeft}px`, height: `${layout.pageHeight}px` }}>
+        {Array.from({ length: pleading.lines }, (_, index) => (
+            <span
+                key={`line-${index}`}
+                className="pleading-column__number theme-muted"
+                style={{ top: `${layout.marginTop + index * pitch}px`, height: `${pitch}px`, lineHeight: `${pitch}px` }}
+            >
+                {index + 1}
+            </span>
+        ))}
+        {pleading.doubleRule ? <span className="pleading-column__rule" /> : null}
+    </div>
+);
+
+type PleadingOverlayProps = PleadingColumnProps & {
+    pageCount: number;
+    visiblePages: PageWindow;
+};
+
+// Print draws the same column once, fixed, and the browser repeats it on every
+// sheet (see `buildPrintStyles`).
+export const PleadingOverlay = ({ pageCount, visiblePages, layout, pleading, pitch }: PleadingOverlayProps) => (
+    <div aria-hidden className="page-overlay pointer-events-none absolute inset-0 z-30">
+        {pageWindowIndices(visiblePages, 0, pageCount).map((index) => (
+            <div key={`pleading-${index}`} className="absolute left-0" style={{ top: `${index * layout.stride}px` }}>
+                <PleadingColumn layout={layout} pleading={pleading} pitch={pitch} />
+            </div>
+        ))}
+    </div>
+);
+
+type PageTopPaddingMaskProps = {
+    pageCount: number;
+    visiblePages: PageWindow;
+    layout: PageLayout;
+    // A header grown past the margin covers its inset as well.
+    pageInsets: (pageIndex: number) => PageInsets;
+};
+
+export const PageTopPaddingMask = ({ pageCount, visiblePages, layout, pageInsets }: PageTopPaddingMaskProps) => (
+    <div aria-hidden className="pointer-events-none absolute left-1/2 top-0 z-25 -translate-x-1/2 w-full">
+        {pageWindowIndices(visiblePages, 1, pageCount).map((pageIndex) => {
+            const top = pageIndex * layout.stride;
+            return (
+                <div
+                    key={`top-pad-mask-${pageIndex}`}
+                    className="absolute left-0 right-0"
+                    style={{ top: `${top}px`, height: `${layout.marginTop + pageInsets(pageIndex).top}px` }}
+                >
+                    <div className="mx-auto h-full w-full rounded-t-[18px] bg-white theme-page" />
+                </div>
+            );
+        })}
+    </div>
+);
+
+type PageBottomPaddingMaskProps = {
+    pageCount: number;
+    visiblePages: PageWindow;
+    layout: PageLayout;
+    pageInsets: (pageIndex: number) => PageInsets;
+};
+
+export const PageBottomPaddingMask = ({ pageCount, visiblePages, layout, pageInsets }: PageBottomPaddingMaskProps) => (
+    <div aria-hidden className="pointer-events-none absolute left-1/2 top-0 z-25 -translate-x-1/2 w-full">
+        {pageWindowIndices(visiblePages, 0, pageCount).map((index) => {
+            const height = layout.marginBottom + pageInsets(index).bottom;
+            const top = index * layout.stride + (layout.pageHeight - height);
+            return (
+                <div
+                    key={`bottom-pad-mask-${index}`}
+                    className="absolute left-0 right-0"
+                    style={{ top: `${top}px`, height: `${height}px` }}
+                >
+                    <div className="mx-auto h-full w-full rounded-b-[18px] bg-white theme-page" />
+                </div>
+            );
+        })}
+    </div>
+);
+
+type MeasurementOverlayProps = {
+    pageCount: number;
+    visiblePages: PageWindow;
+    layout: PageLayout;
+};
+
+const RULER_SIZE = 18;
+const RULER_TICKS_X =
+    "repeating-linear-gradient(to right, rgba(67,56,202,0.75) 0 1px, transparent 1px 96px)," +
+    "repeating-linear-gradient(to right, rgba(67,56,202,0.5) 0 1px, transparent 1px 48px)," +
+    "repeating-linear-gradient(to right, rgba(67,56,202,0.35) 0 1px, transparent 1px 12px)";
+const RULER_TICKS_Y =
+    "repeating-linear-gradient(to bottom, rgba(67,56,202,0.75) 0 1px, transparent 1px 96px)," +
+    "repeating-linear-gradient(to bottom, rgba(67,56,202,0.5) 0 1px, transparent 1px 48px)," +
+    "repeating-linear-gradient(to bottom, rgba(67,56,202,0.35) 0 1px, transparent 1px 12px)";
+
+const formatInches = (px: number) => `${(px / INCH_IN_PX).toFixed(2)} in`;
+
+// Inch rulers along the top/left sheet edges plus dashed guides at the body box,
+// so the on-screen margins can be checked against the printed spec.
+export const MeasurementOverlay = ({ pageCount, visiblePages, layout }: MeasurementOverlayProps) => {
+    const inchesAcross = Math.floor(layout.pageWidth / INCH_IN_PX);
+    const inchesDown = Math.floor(layout.pageHeight / INCH_IN_PX);
+
+    return (
+        <div aria-hidden className="page-overlay pointer-events-none absolute inset-0 z-30">
+            {pageWindowIndices(visiblePages, 0, pageCount).map((index) => {
+                const pageTop = index * layout.stride;
+                return (
+                    <div
+                        key={`ruler-${index}`}
+                        className="absolute left-0 w-full"
+                        style={{ top: `${pageTop}px`, height: `${layout.pageHeight}px` }}
+                    >
+                        <div
+                            className="absolute left-0 top-0 w-full bg-white/85"
+                            style={{
+                                height: `${RULER_SIZE}px`,
+                                backgroundImage: RULER_TICKS_X,
+                                backgroundSize: `100% ${RULER_SIZE}px, 100% ${RULER_SIZE * 0.6}px, 100% ${RULER_SIZE * 0.35}px`,
+                                backgroundRepeat: "no-repeat",
+                            }}
+                        >
+                            {Array.from({ length: inchesAcross }).map((__, inch) => (
+                                <span
+                                    key={`x-${inch}`}
+                                    className="absolute text-[8px] font-semibold text-brand-700"
+                                    style={{ left: `${(inch + 1) * INCH_IN_PX + 2}px`, bottom: 0 }}
+                                >
+                                    {inch + 1}
+                                </span>
+                            ))}
+                        </div>
+                        <div
+                            className="absolute left-0 top-0 h-full bg-white/85"
+                            style={{
+                                width: `${RULER_SIZE}px`,
+                                backgroundImage: RULER_TICKS_Y,
+                                backgroundSize: `${RULER_SIZE}px 100%, ${RULER_SIZE * 0.6}px 100%, ${RULER_SIZE * 0.35}px 100%`,
+                                backgroundRepeat: "no-repeat",
+                            }}
+                        >
+                            {Array.from({ length: inchesDown }).map((__, inch) => (
+                                <span
+                                    key={`y-${inch}`}
+                                    className="absolute text-[8px] font-semibold text-brand-700"
+                                    style={{ top: `${(inch + 1) * INCH_IN_PX + 2}px`, right: 2 }}
+                                >
+                                    {inch + 1}
+                                </span>
+                            ))}
+                        </div>
+                        <div
+                            className="absolute border border-dashed border-brand-400"
+                            style={{
+                                top: `${layout.marginTop}px`,
+                                left: `${layout.marginLeft}px`,
+                                width: `${layout.contentWidth}px`,
+                                height: `${layout.contentHeight}px`,
+                            }}
+                        />
+                        <span
+                            className="absolute rounded bg-brand-50 px-1 text-[9px] font-semibold text-brand-700"
+                            style={{ top: `${Math.max(RULER_SIZE, layout.marginTop / 2 - 6)}px`, left: "50%" }}
+                        >
+                            {formatInches(layout.marginTop)}
+                        </span>
+                        <span
+                            className="absolute rounded bg-brand-50 px-1 text-[9px] font-semibold text-brand-700"
+                            style={{ top: "50%", left: `${Math.max(RULER_SIZE, layout.marginLeft / 2 - 20)}px` }}
+                        >
+                            {formatInches(layout.marginLeft)}
+                        </span>
+                        <span
+                            className="absolute rounded bg-brand-50 px-1 text-[9px] font-semibold text-brand-700"
+                            style={{ top: "50%", right: `${Math.max(2, layout.marginRight / 2 - 20)}px` }}
+                        >
+                            {formatInches(layout.marginRight)}
+                        </span>
+                        <span
+                            className="absolute rounded bg-brand-50 px-1 text-[9px] font-semibold text-brand-700"
+                            style={{ bottom: `${Math.max(2, layout.marginBottom / 2 - 6)}px`, left: "50%" }}
+                        >
+                            {formatInches(layout.marginBottom)}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
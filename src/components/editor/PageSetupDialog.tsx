@@ -0,0 +1,375 @@
+"use client";
+
+import { useState } from "react";
+
+import { cn } from "@/lib/utils";
+import {
+    DEFAULT_PAGE_SETUP,
+    INCH_IN_PX,
+    MAX_PLEADING_LINES,
+    MAX_WIDOW_ORPHAN_LINES,
+    MIN_PLEADING_LINES,
+    PAPER_SIZES,
+    STANDARD_MARGIN_IN,
+    getPleadingPitch,
+    normalizePageSetup,
+    resolvePageLayout,
+} from "./pageSetup";
+import type {
+    FootnoteNumbering,
+    PageLayoutMode,
+    PageMargins,
+    PageSetup,
+    PaperSize,
+    PleadingPaper,
+    WidowOrphanControl,
+} from "./pageSetup";
+
+type PageSetupDialogProps = {
+    value: PageSetup;
+    onCancel: () => void;
+    onApply: (value: PageSetup) => void;
+};
+
+const LAYOUT_MODE_OPTIONS: Array<{ value: PageLayoutMode; label: string; hint: string }> = [
+    { value: "standard", label: "USCIS Standard", hint: "8.5 × 11 in with true 1 in margins" },
+    { value: "custom", label: "Custom", hint: "Choose paper size, orientation and margins" },
+];
+
+const FOOTNOTE_NUMBERING_OPTIONS: Array<{ value: FootnoteNumbering; label: string }> = [
+    { value: "continuous", label: "Continuous" },
+    { value: "page", label: "Restart each page" },
+];
+
+const MARGIN_FIELDS: Array<{ key: keyof PageMargins; label: string }> = [
+    { key: "top", label: "Top" },
+    { key: "bottom", label: "Bottom" },
+    { key: "left", label: "Left" },
+    { key: "right", label: "Right" },
+];
+
+type InchFieldProps = {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+    disabled?: boolean;
+};
+
+const InchField = ({ label, value, onChange, disabled = false }: InchFieldProps) => (
+    <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+        <span className="uppercase tracking-[0.2em] text-[10px] text-slate-400">{label}</span>
+        <div className="inline-flex items-center gap-1">
+            <input
+                type="number"
+                min={0}
+                step={0.05}
+                disabled={disabled}
+                value={Number(value.toFixed(3))}
+                onChange={(event) => {
+                    const next = Number.parseFloat(event.target.value);
+                    onChange(Number.isNaN(next) ? 0 : Math.max(0, next));
+                }}
+                className={cn(
+                    "w-20 rounded-md border border-slate-200 px-2 py-1 text-sm text-slate-700 focus:border-brand-500 focus:outline-none theme-input",
+                    disabled && "cursor-not-allowed opacity-50",
+                )}
+            />
+            <span className="text-slate-400">in</span>
+        </div>
+    </label>
+);
+
+type LineCountFieldProps = {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+    disabled?: boolean;
+    min?: number;
+    max?: number;
+};
+
+const LineCountField = ({
+    label,
+    value,
+    onChange,
+    disabled = false,
+    min = 1,
+    max = MAX_WIDOW_ORPHAN_LINES,
+}: LineCountFieldProps) => (
+    <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+        <span className="uppercase tracking-[0.2em] text-[10px] text-slate-400">{label}</span>
+        <div className="inline-flex items-center gap-1">
+            <input
+                type="number"
+                min={min}
+                max={max}
+                step={1}
+                disabled={disabled}
+                value={value}
+                onChange={(event) => {
+                    const next = Number.parseInt(event.target.value, 10);
+                    onChange(Number.isNaN(next) ? min : Math.min(max, Math.max(min, next)));
+                }}
+                className={cn(
+                    "w-16 rounded-md border border-slate-200 px-2 py-1 text-sm text-slate-700 focus:border-brand-500 focus:outline-none theme-input",
+                    disabled && "cursor-not-allowed opacity-50",
+                )}
+            />
+            <span className="text-slate-400">lines</span>
+        </div>
+    </label>
+);
+
+export const PageSetupDialog = ({ value, onCancel, onApply }: PageSetupDialogProps) => {
+    const [draft, setDraft] = useState<PageSetup>(value);
+
+    const updateMargin = (key: keyof PageMargins, next: number) => {
+        setDraft((prev) => ({ ...prev, margins: { ...prev.margins, [key]: next } }));
+    };
+
+    const updateWidowOrphan = (patch: Partial<WidowOrphanControl>) => {
+        setDraft((prev) => ({ ...prev, widowOrphan: { ...prev.widowOrphan, ...patch } }));
+    };
+
+    const updatePleading = (patch: Partial<PleadingPaper>) => {
+        setDraft((prev) => ({ ...prev, pleading: { ...prev.pleading, ...patch } }));
+    };
+
+    const preview = resolvePageLayout(normalizePageSetup(draft));
+    const isStandard = draft.layoutMode === "standard";
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 theme-modal-overlay"
+            onClick={onCancel}
+            role="presentation"
+        >
+            <div
+                className="w-full max-w-xl rounded-2xl bg-white p-6 shadow-2xl theme-modal"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <p className="text-xs font-semibold uppercase tracking-[0.35em] text-brand-500">Page setup</p>
+                <h2 className="mt-1 text-lg font-semibold text-slate-900">Paper, orientation and margins</h2>
+
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Layout</span>
+                    {LAYOUT_MODE_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            title={option.hint}
+                            onClick={() => setDraft((prev) => ({ ...prev, layoutMode: option.value }))}
+                            className={cn(
+                                "rounded-full border px-3 py-1 text-xs font-semibold",
+                                draft.layoutMode === option.value
+                                    ? "border-brand-500 text-brand-600"
+                                    : "border-slate-200 text-slate-500",
+                            )}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                {isStandard ? (
+                    <p className="mt-2 text-[11px] text-slate-500">
+                        US Letter portrait with {STANDARD_MARGIN_IN} in margins on every side, on screen and in print.
+                        Switch to Custom to change paper or margins.
+                    </p>
+                ) : null}
+
+                <div className="mt-4 flex flex-wrap items-end gap-4">
+                    <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+                        <span className="uppercase tracking-[0.2em] text-[10px] text-slate-400">Paper size</span>
+                        <select
+                            value={isStandard ? "letter" : draft.paperSize}
+                            disabled={isStandard}
+                            onChange={(event) =>
+                                setDraft((prev) => ({ ...prev, paperSize: event.target.value as PaperSize }))
+                            }
+                            className="rounded-md border border-slate-200 px-2 py-1 text-sm focus:border-brand-500 focus:outline-none theme-input"
+                        >
+                            {(Object.keys(PAPER_SIZES) as PaperSize[]).map((key) => (
+                                <option key={key} value={key}>
+                                    {PAPER_SIZES[key].label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <div className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+                        <span className="uppercase tracking-[0.2em] text-[10px] text-slate-400">Orientation</span>
+                        <div className="flex items-center gap-1">
+                            {(["portrait", "landscape"] as const).map((orientation) => (
+                                <button
+                                    key={orientation}
+                                    type="button"
+                                    disabled={isStandard}
+                                    onClick={() => setDraft((prev) => ({ ...prev, orientation }))}
+                                    className={cn(
+                                        "rounded-full border px-3 py-1 text-xs font-semibold capitalize",
+                                        (isStandard ? "portrait" : draft.orientation) === orientation
+                                            ? "border-brand-500 text-brand-600"
+                                            : "border-slate-200 text-slate-500",
+                                        isStandard && "cursor-not-allowed opacity-50",
+                                    )}
+                                >
+                                    {orientation}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <p className="mt-5 text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Margins</p>
+                <div className="mt-2 grid grid-cols-4 gap-3">
+                    {MARGIN_FIELDS.map(({ key, label }) => (
+                        <InchField
+                            key={key}
+                            label={label}
+                            value={isStandard ? STANDARD_MARGIN_IN : draft.margins[key]}
+                            onChange={(next) => updateMargin(key, next)}
+                            disabled={isStandard}
+                        />
+                    ))}
+                </div>
+
+                <p className="mt-5 text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Header &amp; footer</p>
+                <div className="mt-2 grid grid-cols-4 gap-3">
+                    <InchField
+                        label="Header from edge"
+                        value={draft.headerDistance}
+                        onChange={(next) => setDraft((prev) => ({ ...prev, headerDistance: next }))}
+                    />
+                    <InchField
+                        label="Footer from edge"
+                        value={draft.footerDistance}
+                        onChange={(next) => setDraft((prev) => ({ ...prev, footerDistance: next }))}
+                    />
+                    <InchField
+                        label="Max. height"
+                        value={draft.headerFooterMaxHeight}
+                        onChange={(next) => setDraft((prev) => ({ ...prev, headerFooterMaxHeight: next }))}
+                    />
+                </div>
+                <p className="mt-2 text-[11px] text-slate-500">
+                    A header or footer taller than its margin pushes the body in on that page, up to the maximum height.
+                </p>
+
+                <p className="mt-5 text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Page breaks</p>
+                <div className="mt-2 flex flex-wrap items-end gap-4">
+                    <label className="flex items-center gap-2 self-center text-sm text-slate-600">
+                        <input
+                            type="checkbox"
+                            checked={draft.widowOrphan.enabled}
+                            onChange={(event) => updateWidowOrphan({ enabled: event.target.checked })}
+                            className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                        />
+                        Widow &amp; orphan control
+                    </label>
+                    <LineCountField
+                        label="Min. before break"
+                        value={draft.widowOrphan.orphans}
+                        onChange={(next) => updateWidowOrphan({ orphans: next })}
+                        disabled={!draft.widowOrphan.enabled}
+                    />
+                    <LineCountField
+                        label="Min. after break"
+                        value={draft.widowOrphan.widows}
+                        onChange={(next) => updateWidowOrphan({ widows: next })}
+                        disabled={!draft.widowOrphan.enabled}
+                    />
+                </div>
+
+                <p className="mt-5 text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Footnotes</p>
+                <div className="mt-2 flex items-center gap-1">
+                    {FOOTNOTE_NUMBERING_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => setDraft((prev) => ({ ...prev, footnoteNumbering: option.value }))}
+                            className={cn(
+                                "rounded-full border px-3 py-1 text-xs font-semibold",
+                                draft.footnoteNumbering === option.value
+                                    ? "border-brand-500 text-brand-600"
+                                    : "border-slate-200 text-slate-500",
+                            )}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+
+                <p className="mt-5 text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Pleading paper</p>
+                <div className="mt-2 flex flex-wrap items-end gap-4">
+                    <label className="flex items-center gap-2 self-center text-sm text-slate-600">
+                        <input
+                            type="checkbox"
+                            checked={draft.pleading.enabled}
+                            onChange={(event) => updatePleading({ enabled: event.target.checked })}
+                            className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                        />
+                        Numbered lines
+                    </label>
+                    <LineCountField
+                        label="Lines per page"
+                        value={draft.pleading.lines}
+                        onChange={(next) => updatePleading({ lines: next })}
+                        disabled={!draft.pleading.enabled}
+                        min={MIN_PLEADING_LINES}
+                        max={MAX_PLEADING_LINES}
+                    />
+                    <label
+                        className={cn(
+                            "flex items-center gap-2 self-center text-sm text-slate-600",
+                            !draft.pleading.enabled && "opacity-50",
+                        )}
+                    >
+                        <input
+                            type="checkbox"
+                            checked={draft.pleading.doubleRule}
+                            disabled={!draft.pleading.enabled}
+                            onChange={(event) => updatePleading({ doubleRule: event.target.checked })}
+                            className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                        />
+                        Double rule
+                    </label>
+                </div>
+                {draft.pleading.enabled ? (
+                    <p className="mt-2 text-[11px] text-slate-500">
+                        Text is set on a {getPleadingPitch(preview, normalizePageSetup(draft).pleading)} px grid, one line
+                        per number; line spacing and paragraph spacing are ignored.
+                    </p>
+                ) : null}
+
+                <p className="mt-5 text-[11px] text-slate-500">
+                    Body area {(preview.contentWidth / INCH_IN_PX).toFixed(2)} × {(preview.contentHeight / INCH_IN_PX).toFixed(2)} in on a{" "}
+                    {preview.widthIn} × {preview.heightIn} in sheet.
+                </p>
+
+                <div className="mt-6 flex justify-end gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setDraft(DEFAULT_PAGE_SETUP)}
+                        className="mr-auto rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 hover:border-slate-300"
+                    >
+                        Reset
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 hover:border-slate-300"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onApply(normalizePageSetup(draft))}
+                        className="rounded-full bg-brand-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-brand-500"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
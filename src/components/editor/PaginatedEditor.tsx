@@ -1,11 +1,13 @@
 "use client";
 
-import type { ChangeEvent, ComponentType } from "react";
-import type { Editor } from "@tiptap/core";
+import type { ChangeEvent } from "react";
+import type { Editor, JSONContent } from "@tiptap/core";
 import { Extension } from "@tiptap/core";
 import { Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
+import type { EditorState } from "@tiptap/pm/state";
 import { Decoration, DecorationSet, EditorView } from "@tiptap/pm/view";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { flushSync } from "react-dom";
 import dayjs from "dayjs";
 import { EditorContent, useEditor } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
@@ -25,7 +27,9 @@ import {
     AlignRight,
     ArrowDownAZ,
     ArrowUpAZ,
+    Asterisk,
     Bold,
+    BookMarked,
     Building2,
     CalendarDays,
     Code,
@@ -40,11 +44,13 @@ import {
     Italic,
     List,
     ListOrdered,
+    ListTree,
     Mail,
     Minus,
     NotebookPen,
     Palette,
     Search,
+    SeparatorHorizontal,
     Printer,
     Quote,
     Redo,
@@ -58,36 +64,113 @@ import {
     Underline as UnderlineIcon,
     Undo,
     UserRound,
-    Edit3,
+    FileCog,
+    Group,
+    Link2,
+    Ruler,
     Save,
+    BetweenHorizontalEnd,
+    BetweenVerticalEnd,
+    Columns3,
+    Rows3,
+    Table,
+    TableCellsMerge,
+    TableCellsSplit,
+    TableProperties,
+    Trash2,
+    ImagePlus,
 } from "lucide-react";
 
 import { cn } from "@/lib/utils";
+import {
+    ALL_PAGES_WINDOW,
+    DEFAULT_PAGE_LAYOUT,
+    DEFAULT_PAGE_SETUP,
+    getPleadingPitch,
+    normalizePageSetup,
+    resolvePageLayout,
+    resolvePageWindow,
+} from "./pageSetup";
+import type { PageSetup, PageWindow } from "./pageSetup";
+import { EMPTY_PAGE_MAP } from "./paginate";
+import { KeepBlocksExtension, isKeepActive } from "./extensions/KeepBlocks";
+import { PageBreak } from "./extensions/PageBreak";
+import { DEFAULT_TABLE_SIZE, TableExtensions } from "./extensions/Tables";
+import { ResizableImage, getImageFiles, insertImageFiles } from "./extensions/ResizableImage";
+import { Footnote } from "./extensions/Footnotes";
+import { EndnoteExtensions } from "./extensions/Endnotes";
+import { TableOfContents, tableOfContentsPluginKey } from "./extensions/TableOfContents";
+import { collectOutline, moveSection } from "./outline";
+import type { OutlineEntry } from "./outline";
+import {
+    DEFAULT_DOCUMENT_FIELDS,
+    DEFAULT_HEADER_FOOTER,
+    EMPTY_HEADER_FOOTER_HEIGHTS,
+    HEADER_FOOTER_SECTIONS,
+    createHeaderFooterContent,
+    getPageSection,
+    getRegionHeights,
+    isLegacyHeaderFooter,
+    normalizeDocumentFields,
+    normalizeHeaderFooter,
+    withSectionContent,
+} from "./headerFooter";
+import type {
+    DocumentFields,
+    HeaderFooter,
+    HeaderFooterContent,
+    HeaderFooterFieldValues,
+    HeaderFooterHeights,
+    HeaderFooterRegion,
+    HeaderFooterSection,
+} from "./headerFooter";
+import type { TableOfContentsMeta } from "./extensions/TableOfContents";
+import { PageNode, PagedDocument } from "./extensions/PageNode";
+import { PaginationExtension, paginationPluginKey, toFlatContent, toPagedContent } from "./extensions/PaginationPlugin";
+import type { PaginationMeta } from "./extensions/PaginationPlugin";
+import type { PageInsets } from "./paginate";
+import {
+    FooterReserveExtension,
+    countPageBreaks,
+    footerReservePluginKey,
+    getFlowPageIndex,
+    getPageBounds,
+    getPageLayout,
+    getPageMap,
+    groupFootnotesByPage,
+    serializePages,
+} from "./extensions/FooterReservePlugin";
+import type { FooterReserveMeta, PageFootnote } from "./extensions/FooterReservePlugin";
+import { measureCaretPosition } from "./measure";
+import type { CaretPosition } from "./measure";
+import { buildPrintStyles } from "./printStyles";
+import { COLOR_SWATCHES, HeaderIconButton, ToolbarButton, ToolbarDivider } from "./ToolbarControls";
+import {
+    MeasurementOverlay,
+    PageBottomPaddingMask,
+    PageFooterOverlays,
+    PageGapMask,
+    PageOverlay,
+    PageTopPaddingMask,
+    PleadingColumn,
+    PleadingOverlay,
+} from "./PageOverlays";
+import { FootnoteOverlay } from "./FootnoteOverlay";
+import { NavigatorSidebar, OutlineList, PageThumbnails } from "./NavigatorSidebar";
+import type { NavigatorView } from "./NavigatorSidebar";
+import {
+    HeaderFooterMeasure,
+    HeaderFooterOverlay,
+    HeaderFooterPrint,
+    areHeaderFooterHeightsEqual,
+    getSectionLabel,
+} from "./HeaderFooterOverlay";
+import { HeaderFooterInlineEditor } from "./HeaderFooterInlineEditor";
+import { parseHeaderFooterHtml } from "./headerFooterSchema";
+import { HeaderFooterEditModal } from "./HeaderFooterEditModal";
+import { PageSetupDialog } from "./PageSetupDialog";
+import { GoToPageDialog } from "./GoToPageDialog";
 
-const INCH_IN_PX = 96;
-const PAGE_HEIGHT = 11 * INCH_IN_PX;
-const PAGE_MARGIN = 0;
-const PAGE_HEADER_HEIGHT = 32;
-const PAGE_SIDE_PADDING = 64;
-
-// Reserve page height percentages for header/footer overlays.
-const HEADER_RESERVED_PERCENT = 0.08;
-const FOOTER_RESERVED_PERCENT = 0.08;
-const PAGE_TOP_PADDING = Math.round(PAGE_HEIGHT * HEADER_RESERVED_PERCENT);
-const PAGE_FOOTER_HEIGHT = Math.round(PAGE_HEIGHT * FOOTER_RESERVED_PERCENT);
-const PAGE_FOOTER_BORDER_HEIGHT = PAGE_FOOTER_HEIGHT;
-const PAGE_FOOTER_BORDER_OFFSET = 0;
-const PAGE_GAP = 56;
-const PAGE_STRIDE = PAGE_HEIGHT + PAGE_GAP;
-// Bottom padding (space reserved at bottom of page content).
-const PAGE_BOTTOM_PADDING = PAGE_FOOTER_HEIGHT;
-const PAGE_CONTENT_HEIGHT = PAGE_HEIGHT - PAGE_TOP_PADDING - PAGE_BOTTOM_PADDING;
-const PAGE_WIDTH_IN = 8.5;
-const PAGE_HEIGHT_IN = 11;
-const PRINT_PAGE_MARGIN_IN = 0;
-const PAGE_SIDE_PADDING_IN = PAGE_SIDE_PADDING / INCH_IN_PX;
-const PAGE_TOP_PADDING_IN = PAGE_TOP_PADDING / INCH_IN_PX;
-const PAGE_BOTTOM_PADDING_IN = PAGE_BOTTOM_PADDING / INCH_IN_PX;
 const DRAFT_STORAGE_KEY = "legalbridge.paginatedEditorDraft";
 const FONT_PRESETS = {
     default: "",
@@ -102,230 +185,16 @@ const LINE_SPACING_OPTIONS = [
     { label: "2", value: 2 },
 ];
 
-const footerReservePluginKey = new PluginKey<DecorationSet>("footer-reserve");
-
-const countPageBreaks = (view: EditorView): number => {
-    try {
-        const decoSet = footerReservePluginKey.getState(view.state) as DecorationSet | null;
-        if (!decoSet) {
-            return 0;
-        }
-        const docSize = view.state.doc.content.size;
-        const list = decoSet.find(0, docSize);
-        let breaks = 0;
-        for (const deco of list) {
-            const key = (deco.spec as { key?: string })?.key;
-            if (typeof key === "string" && key.startsWith("page-filler") && !key.includes("tail")) {
-                breaks += 1;
-            }
-        }
-        return Math.max(0, breaks);
-    } catch {
-        return 0;
-    }
-};
-
-const createSpacerDecoration = (pos: number, height: number, key: string) =>
-    Decoration.widget(
-        pos,
-        () => {
-            const el = document.createElement("div");
-            el.className = "page-break-filler block h-full w-full";
-            el.style.cssText = `display:block;width:100%;height:${Math.max(0, height)}px;pointer-events:none;background:transparent;`;
-            el.setAttribute("data-page-filler", "true");
-            el.setAttribute("data-filler-key", key);
-            el.setAttribute("data-print-break", key.includes("tail") ? "false" : "true");
-            return el;
-        },
-        { side: -1, key },
-    );
-
-const areDecorationSetsEqual = (a: DecorationSet, b: DecorationSet, docSize: number) => {
-    if (a === b) return true;
-    const aList = a.find(0, docSize);
-    const bList = b.find(0, docSize);
-    if (aList.length !== bList.length) return false;
-    for (let i = 0; i < aList.length; i += 1) {
-        const aDeco = aList[i];
-        const bDeco = bList[i];
-        if (aDeco.from !== bDeco.from || aDeco.to !== bDeco.to) {
-            return false;
-        }
-        const aKey = (aDeco.spec as Record<string, unknown>)?.key;
-        const bKey = (bDeco.spec as Record<string, unknown>)?.key;
-        if (aKey !== bKey) {
-            return false;
-        }
-    }
-    return true;
-};
-
-type BlockRect = {
-    pos: number;
-    height: number;
-    nodeSize: number;
-};
-
-const collectBlockRects = (view: EditorView): BlockRect[] => {
-    const blocks: BlockRect[] = [];
-
-    view.state.doc.descendants((node, pos) => {
-        if (!node.isTextblock) {
-            return true;
-        }
-
-        const element = view.nodeDOM(pos) as HTMLElement | null;
-        if (!element) {
-            return true;
-        }
-
-        const rect = element.getBoundingClientRect();
-        const style = window.getComputedStyle(element);
-        const marginTop = Number.parseFloat(style.marginTop) || 0;
-        const marginBottom = Number.parseFloat(style.marginBottom) || 0;
-        const height = Math.max(1, Math.ceil(rect.height + marginTop + marginBottom));
-
-        blocks.push({
-            pos,
-            height,
-            nodeSize: node.nodeSize,
-        });
-
-        return true;
-    });
-
-    return blocks;
-};
-
-const asHtml = (value: string) => ({ __html: value && value.trim().length ? value : "&nbsp;" });
-
-const buildFooterDecorations = (view: EditorView) => {
-    const decorations: Decoration[] = [];
-    const { doc } = view.state;
-    const dom = view.dom as HTMLElement;
-
-    if (!dom) {
-        return DecorationSet.empty;
-    }
-
-    const blockRects = collectBlockRects(view);
-    if (!blockRects.length) {
-        return DecorationSet.empty;
-    }
-
-    const footerCarryHeight = PAGE_BOTTOM_PADDING + PAGE_GAP + PAGE_TOP_PADDING;
-    let remainingOnPage = PAGE_CONTENT_HEIGHT;
-    let fillerIndex = 0;
-
-    for (const block of blockRects) {
-        const blockHeight = Math.max(1, Math.round(block.height));
-        let blockRemaining = Math.min(blockHeight, PAGE_HEIGHT * 2);
-
-        if (remainingOnPage <= 0) {
-            const pos = Math.max(1, Math.min(block.pos, doc.content.size));
-            decorations.push(createSpacerDecoration(pos, footerCarryHeight, `page-filler-carry-${pos}-${fillerIndex}`));
-            fillerIndex += 1;
-            remainingOnPage = PAGE_CONTENT_HEIGHT;
-        }
-
-        while (blockRemaining > remainingOnPage && remainingOnPage > 0) {
-            const filler = remainingOnPage + footerCarryHeight;
-            const pos = Math.max(1, Math.min(block.pos, doc.content.size));
-            decorations.push(createSpacerDecoration(pos, filler, `page-filler-${pos}-${fillerIndex}`));
-            fillerIndex += 1;
-            blockRemaining -= remainingOnPage;
-            remainingOnPage = PAGE_CONTENT_HEIGHT;
-        }
-
-        const consumed = Math.min(blockRemaining, remainingOnPage);
-        remainingOnPage -= consumed;
-        remainingOnPage = Math.max(0, Math.round(remainingOnPage));
-    }
-
-    if (remainingOnPage < PAGE_CONTENT_HEIGHT) {
-        const trailingFiller = Math.max(0, Math.round(remainingOnPage));
-        if (trailingFiller > 0) {
-            decorations.push(createSpacerDecoration(doc.content.size, trailingFiller, `page-filler-tail-${fillerIndex}`));
-        }
-    }
-
-    return decorations.length ? DecorationSet.create(doc, decorations) : DecorationSet.empty;
-};
-
-const createFooterReservePlugin = () =>
-    new Plugin({
-        key: footerReservePluginKey,
-        state: {
-            init: () => DecorationSet.empty,
-            apply(tr, old) {
-                const meta = tr.getMeta(footerReservePluginKey);
-                if (meta) {
-                    return meta;
-                }
-                if (tr.docChanged) {
-                    return old.map(tr.mapping, tr.doc);
-                }
-                return old;
-            },
-        },
-        props: {
-            decorations(state) {
-                return this.getState(state);
-            },
-        },
-        view(editorView) {
-            let frame: number | null = null;
-
-            const schedule = () => {
-                if (frame !== null) return;
-                frame = requestAnimationFrame(() => {
-                    frame = null;
-                    const nextDecorations = buildFooterDecorations(editorView);
-                    const current = footerReservePluginKey.getState(editorView.state) ?? DecorationSet.empty;
-                    const docSize = editorView.state.doc.content.size;
-                    if (!areDecorationSetsEqual(current, nextDecorations, docSize)) {
-                        editorView.dispatch(
-                            editorView.state.tr.setMeta(footerReservePluginKey, nextDecorations),
-                        );
-                    }
-                });
-            };
-
-            schedule();
-
-            const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(schedule) : null;
-            if (observer) {
-                observer.observe(editorView.dom);
-            }
-
-            return {
-                update: (view, prevState) => {
-                    if (view.state.doc.eq(prevState.doc) && view.state.selection.eq(prevState.selection)) {
-                        return;
-                    }
-                    schedule();
-                },
-                destroy: () => {
-                    if (frame !== null) {
-                        cancelAnimationFrame(frame);
-                    }
-                    observer?.disconnect();
-                },
-            };
-        },
-    });
-
-const FooterReserveExtension = Extension.create({
-    name: "footerReserve",
-    addProseMirrorPlugins() {
-        return [createFooterReservePlugin()];
-    },
-});
+// In structural mode every top-level node is a page.
+const getStructuralPageIndex = (state: EditorState, pos: number): number => state.doc.resolve(pos).index(0);
 
 const selectionGuardPluginKey = new PluginKey("selection-guard");
 const HEADER_GUARD_BUFFER_PX = 8;
 const HEADER_GUARD_MARGIN_PX = 4;
 const HEADER_TARGET_OFFSET_PX = 4;
+// Height of the fixed toolbar plus a little air; scroll targets land below it.
+const TOOLBAR_CLEARANCE_PX = 148;
+const THUMBNAIL_REFRESH_MS = 300;
 let selectionGuardPointerDown = false;
 type PointerSnapshot = { x: number; y: number } | null;
 let lastPointerSnapshot: PointerSnapshot = null;
@@ -383,7 +252,8 @@ const collectPageBlocksInRange = (
     const blocks: PageBlockSnapshot[] = [];
     const docSize = view.state.doc.content.size;
     view.state.doc.descendants((node, pos) => {
-        if (!node.isTextblock) {
+        const isAtom = node.isBlock && node.isLeaf;
+        if (!node.isTextblock && !isAtom) {
             return true;
         }
         const domNode = view.nodeDOM(pos);
@@ -396,8 +266,9 @@ const collectPageBlocksInRange = (
         if (bottom < bodyTop || top > bodyBottom) {
             return true;
         }
-        const start = Math.max(1, Math.min(docSize, pos + 1));
-        const end = Math.max(start, Math.min(docSize, pos + node.nodeSize - 1));
+        const inset = isAtom ? 0 : 1;
+        const start = Math.max(1, Math.min(docSize, pos + inset));
+        const end = Math.max(start, Math.min(docSize, pos + node.nodeSize - inset));
         blocks.push({ start, end, top, bottom });
         return true;
     });
@@ -474,7 +345,7 @@ const createSelectionGuardPlugin = () =>
                             const docSize = view.state.doc.content.size;
                             const boundedPos = Math.max(1, Math.min(targetPos, docSize));
                             const tr = view.state.tr.setSelection(
-                                TextSelection.create(view.state.doc, boundedPos),
+                                TextSelection.near(view.state.doc.resolve(boundedPos)),
                             );
                             view.dispatch(tr);
                             centerViewportOnPos(view, boundedPos);
@@ -488,15 +359,16 @@ const createSelectionGuardPlugin = () =>
                         const relativeTop = pointerRelativeTop ?? coords.top - domRect.top;
                         const relativeBottom = pointerRelativeTop ?? coords.bottom - domRect.top;
                         const pointerColumnX = pointerSnapshot ? pointerSnapshot.x : null;
-                        const stride = PAGE_HEIGHT + PAGE_GAP;
+                        const layout = getPageLayout(view.state);
+                        const stride = layout.stride;
                         const pageIndex = Math.max(0, Math.floor(relativeTop / stride));
                         const pageTop = pageIndex * stride;
-                        const pageBodyTopRelative = pageTop + PAGE_TOP_PADDING + 4;
-                        const pageBodyBottomRelative = pageTop + PAGE_HEIGHT - PAGE_BOTTOM_PADDING - 4;
+                        const pageBodyTopRelative = pageTop + layout.marginTop + 4;
+                        const pageBodyBottomRelative = pageTop + layout.pageHeight - layout.marginBottom - 4;
                         const pageBodyTop = domRect.top + pageBodyTopRelative;
 
                         // Allow clicks just below the header divider, only guard obvious header hits
-                        const bodyStart = pageTop + PAGE_TOP_PADDING;
+                        const bodyStart = pageTop + layout.marginTop;
                         const guardCeiling = bodyStart - HEADER_GUARD_BUFFER_PX;
                         if (relativeBottom >= guardCeiling) {
                             return;
@@ -547,11 +419,11 @@ const createSelectionGuardPlugin = () =>
                         }
 
                         // If caret is inside footer reserved area, move it to next page body start
-                        const footerTop = pageTop + PAGE_HEIGHT - PAGE_FOOTER_HEIGHT + PAGE_FOOTER_BORDER_OFFSET;
+                        const footerTop = pageTop + layout.pageHeight - layout.marginBottom;
                         if (relativeTop >= footerTop) {
                             const nextPageIndex = pageIndex + 1;
                             const nextPageTop = nextPageIndex * stride;
-                            const targetTop = domRect.top + nextPageTop + PAGE_TOP_PADDING + 2;
+                            const targetTop = domRect.top + nextPageTop + layout.marginTop + 2;
                             const target = view.posAtCoords({ left: domRect.left + 12, top: targetTop });
                             let targetPos = target?.pos ?? view.state.doc.content.size;
                             if (targetPos < 1) targetPos = view.state.doc.content.size;
@@ -561,7 +433,7 @@ const createSelectionGuardPlugin = () =>
 
                         // Snap caret within the clicked page body when clicking empty areas
                         const snapCaretWithinPage = () => {
-                            const columnX = pointerColumnX ?? domRect.left + PAGE_SIDE_PADDING + 8;
+                            const columnX = pointerColumnX ?? domRect.left + layout.marginLeft + 8;
                             const pageBodyBottom = domRect.top + pageBodyBottomRelative;
                             const { doc } = view.state;
                             const docSize = doc.content.size;
@@ -657,15 +529,6 @@ const SearchHighlightExtension = Extension.create({
     },
 });
 
-const COLOR_SWATCHES = [
-    { label: "Slate", value: "#0f172a" },
-    { label: "Indigo", value: "#4338ca" },
-    { label: "Brand", value: "#5741f5" },
-    { label: "Emerald", value: "#059669" },
-    { label: "Rose", value: "#be123c" },
-    { label: "Amber", value: "#b45309" },
-];
-
 const DARK_MODE_STYLES = `
 html.theme-dark,
 body.theme-dark,
@@ -823,6 +686,55 @@ body.theme-dark .tiptap,
     color: #f8fafc !important;
 }
 
+html.theme-dark .structural-page,
+body.theme-dark .structural-page,
+.theme-dark .structural-page {
+    background-color: #0f172a;
+}
+
+html.theme-dark .tiptap .page-break-marker::after,
+body.theme-dark .tiptap .page-break-marker::after,
+.theme-dark .tiptap .page-break-marker::after {
+    background-color: #0f172a;
+    color: #cbd5f5;
+}
+
+html.theme-dark .tiptap th,
+body.theme-dark .tiptap th,
+.theme-dark .tiptap th {
+    background-color: #1e293b;
+}
+
+html.theme-dark .tiptap td,
+html.theme-dark .tiptap th,
+body.theme-dark .tiptap td,
+body.theme-dark .tiptap th,
+.theme-dark .tiptap td,
+.theme-dark .tiptap th {
+    border-color: #475569;
+}
+
+html.theme-dark .page-footnote,
+body.theme-dark .page-footnote,
+.theme-dark .page-footnote {
+    color: #cbd5f5;
+}
+
+html.theme-dark .tiptap .footnote-ref,
+body.theme-dark .tiptap .footnote-ref,
+.theme-dark .tiptap .footnote-ref,
+html.theme-dark .tiptap .endnote-ref,
+body.theme-dark .tiptap .endnote-ref,
+.theme-dark .tiptap .endnote-ref {
+    color: #a5b4fc;
+}
+
+html.theme-dark .tiptap .toc__leader,
+body.theme-dark .tiptap .toc__leader,
+.theme-dark .tiptap .toc__leader {
+    border-bottom-color: #64748b;
+}
+
 .theme-chip {
     background-color: #ffffff;
     color: #1f2937;
@@ -865,75 +777,6 @@ body.theme-dark .search-highlight,
 .theme-dark .search-highlight {
     background-color: rgba(250, 204, 21, 0.65);
 }
-
-@media print {
-    @page {
-        size: ${PAGE_WIDTH_IN}in ${PAGE_HEIGHT_IN}in;
-        margin: ${PRINT_PAGE_MARGIN_IN}in;
-    }
-
-    html, body {
-        background: #ffffff !important;
-    }
-
-    .fixed,
-    .theme-panel,
-    .theme-overlay,
-    .theme-gap,
-    .theme-shell > header,
-    .theme-shell .pagination-controls,
-    .header-footer-overlay,
-    .page-overlay {
-        display: none !important;
-    }
-
-    .theme-shell {
-        border: none !important;
-        box-shadow: none !important;
-        background: transparent !important;
-    }
-
-    /* Hide absolute overlay layers (page headers/footers/masks) during print, except footer numbers */
-    .pointer-events-none.z-25,
-    .pointer-events-none.z-30:not(.page-footer-overlay) {
-        display: none !important;
-    }
-
-    /* Re-enable footer page numbers so they print */
-    .pointer-events-none.z-30.page-footer-overlay {
-        display: block !important;
-    }
-
-    .page-footer-overlay span {
-        color: #0f172a !important;
-    }
-
-    .printable-page {
-        width: ${PAGE_WIDTH_IN}in !important;
-        min-height: ${PAGE_HEIGHT_IN}in !important;
-        margin: 0 auto !important;
-        padding: ${PAGE_TOP_PADDING_IN}in ${PAGE_SIDE_PADDING_IN}in ${PAGE_BOTTOM_PADDING_IN}in !important;
-        box-shadow: none !important;
-        background: #ffffff !important;
-        color: #0f172a !important;
-    }
-
-    .page-break-filler[data-print-break="true"] {
-        height: 0 !important;
-        padding: 0 !important;
-        margin: 0 !important;
-        break-after: page;
-        page-break-after: always;
-    }
-
-    .page-break-filler[data-print-break="false"] {
-        height: 0 !important;
-        padding: 0 !important;
-        margin: 0 !important;
-        break-after: auto;
-        page-break-after: auto;
-    }
-}
 `;
 
 const DEFAULT_LETTER = `
@@ -950,58 +793,6 @@ const DEFAULT_LETTER = `
 <p>Overall, the goal of this paginated editor is to provide a reliable, print-ready writing environment that behaves predictably under all editing scenarios. By continuously enforcing spacing rules, recalculating page breaks, and aligning the on-screen layout with real-world print standards, the editor delivers a consistent and professional document creation experience suitable for structured writing, legal filings, and formal business communication.</p>
 `;
 
-const DEFAULT_HEADER_TEXT = "";
-const DEFAULT_FOOTER_TEXT = "";
-
-type ToolbarButtonProps = {
-    label: string;
-    icon: ComponentType<{ className?: string }>;
-    isActive?: boolean;
-    onClick: () => void;
-    disabled?: boolean;
-};
-
-const ToolbarButton = ({ label, icon: Icon, isActive = false, onClick, disabled = false }: ToolbarButtonProps) => (
-    <button
-        type="button"
-        title={label}
-        className={cn(
-            "inline-flex h-7 w-7 flex-none items-center justify-center rounded-md border text-[11px] font-medium transition theme-icon-button",
-            isActive ? "border-brand-500 bg-brand-50 text-brand-600" : "border-slate-200 bg-white text-slate-600",
-            disabled && "cursor-not-allowed opacity-40",
-        )}
-        onClick={onClick}
-        disabled={disabled}
-    >
-        <Icon className="h-3.5 w-3.5" />
-    </button>
-);
-
-const ToolbarDivider = () => <span className="mx-1 h-5 w-px bg-slate-200" aria-hidden="true" />;
-
-type HeaderIconButtonProps = {
-    icon: ComponentType<{ className?: string }>;
-    label: string;
-    onClick: () => void;
-    disabled?: boolean;
-};
-
-const HeaderIconButton = ({ icon: Icon, label, onClick, disabled = false }: HeaderIconButtonProps) => (
-    <button
-        type="button"
-        aria-label={label}
-        title={label}
-        className={cn(
-            "inline-flex h-7 w-7 items-center justify-center rounded-full border text-slate-600 transition theme-icon-button",
-            disabled ? "cursor-not-allowed opacity-40" : "bg-white hover:border-slate-400",
-        )}
-        onClick={onClick}
-        disabled={disabled}
-    >
-        <Icon className="h-3.5 w-3.5" />
-    </button>
-);
-
 const collapseRangeSelection = (editor: Editor) => {
     const { state, view } = editor;
     if (!view || state.selection.empty) return;
@@ -1087,10 +878,7 @@ const ColorPicker = ({ editor }: ColorPickerProps) => {
     );
 };
 
-const DEFAULT_EXTENSIONS = [
-    StarterKit.configure({
-        heading: { levels: [1, 2, 3] },
-    }),
+const SHARED_EXTENSIONS = [
     Placeholder.configure({ placeholder: "Start drafting your legal document…" }),
     Underline,
     TextStyle,
@@ -1100,29 +888,91 @@ const DEFAULT_EXTENSIONS = [
     Superscript,
     Subscript,
     CharacterCount.configure(),
+    KeepBlocksExtension,
+    PageBreak,
+    ...TableExtensions,
+    ResizableImage,
+    Footnote,
+    ...EndnoteExtensions,
+    SearchHighlightExtension,
+];
+
+const DEFAULT_EXTENSIONS = [
+    StarterKit.configure({
+        heading: { levels: [1, 2, 3] },
+    }),
+    ...SHARED_EXTENSIONS,
+    TableOfContents.configure({ getPageIndex: getFlowPageIndex }),
     FooterReserveExtension,
     SelectionGuardExtension,
-    SearchHighlightExtension,
 ];
 
-export const PaginatedEditor = () => {
+// Structural mode swaps the filler decorations for real page nodes.
+const STRUCTURAL_EXTENSIONS = [
+    StarterKit.configure({
+        heading: { levels: [1, 2, 3] },
+        document: false,
+    }),
+    PagedDocument,
+    PageNode,
+    PaginationExtension,
+    ...SHARED_EXTENSIONS,
+    TableOfContents.configure({ getPageIndex: getStructuralPageIndex }),
+];
+
+/**
+ * `flow` keeps a flat document and paginates with spacer decorations;
+ * `structural` stores every page as a `page` node. Fixed for the editor's lifetime.
+ */
+export type PaginationMode = "flow" | "structural";
+
+type PaginatedEditorProps = {
+    paginationMode?: PaginationMode;
+};
+
+export const PaginatedEditor = ({ paginationMode = "flow" }: PaginatedEditorProps) => {
+    const isStructural = paginationMode === "structural";
     const scrollRef = useRef<HTMLDivElement | null>(null);
     const contentRef = useRef<HTMLDivElement | null>(null);
+    const imageInputRef = useRef<HTMLInputElement | null>(null);
 
-    const [contentHeight, setContentHeight] = useState(PAGE_HEIGHT - PAGE_MARGIN * 2);
+    const [pageSetup, setPageSetup] = useState<PageSetup>(DEFAULT_PAGE_SETUP);
+    const [pageSetupOpen, setPageSetupOpen] = useState(false);
+    const [showRulers, setShowRulers] = useState(false);
+    const pageLayout = useMemo(() => resolvePageLayout(pageSetup), [pageSetup]);
+    const [contentHeight, setContentHeight] = useState(DEFAULT_PAGE_LAYOUT.pageHeight);
     const [pageCount, setPageCount] = useState(1);
     const [activePage, setActivePage] = useState(1);
+    const [navigatorOpen, setNavigatorOpen] = useState(true);
+    const [navigatorView, setNavigatorView] = useState<NavigatorView>("outline");
+    const [pageThumbnails, setPageThumbnails] = useState<string[]>([]);
+    const [caretPosition, setCaretPosition] = useState<CaretPosition | null>(null);
+    const [goToPageOpen, setGoToPageOpen] = useState(false);
+    const [pageWindow, setPageWindow] = useState<PageWindow>({ first: 0, last: 0 });
+    const [isPrinting, setIsPrinting] = useState(false);
     const [pageStartNumber, setPageStartNumber] = useState(1);
-    const [headerText, setHeaderText] = useState(DEFAULT_HEADER_TEXT);
-    const [footerText, setFooterText] = useState(DEFAULT_FOOTER_TEXT);
+    const [headerFooter, setHeaderFooter] = useState<HeaderFooter>(DEFAULT_HEADER_FOOTER);
+    const [documentFields, setDocumentFields] = useState<DocumentFields>(DEFAULT_DOCUMENT_FIELDS);
+    // Measured content of every header and footer; their regions grow to fit it.
+    const [headerFooterContentHeights, setHeaderFooterContentHeights] =
+        useState<HeaderFooterHeights>(EMPTY_HEADER_FOOTER_HEIGHTS);
     const [documentTitle, setDocumentTitle] = useState("Paginated Letter Editor");
     const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
     const [saveStatus, setSaveStatus] = useState<"saved" | "saving" | "unsaved">("saved");
     const [showPageNumbers, setShowPageNumbers] = useState(true);
     const [autoSaveEnabled, setAutoSaveEnabled] = useState(true);
     const [isDarkMode, setIsDarkMode] = useState(false);
-    const [editingRegion, setEditingRegion] = useState<"header" | "footer" | null>(null);
-    const [draftText, setDraftText] = useState("");
+    const [editingRegion, setEditingRegion] = useState<HeaderFooterRegion | null>(null);
+    const [editingSection, setEditingSection] = useState<HeaderFooterSection>("default");
+    // The modal edits a copy, so Cancel drops every section it touched.
+    const [draftHeaderFooter, setDraftHeaderFooter] = useState<HeaderFooter>(DEFAULT_HEADER_FOOTER);
+    const [draftDocumentFields, setDraftDocumentFields] = useState<DocumentFields>(DEFAULT_DOCUMENT_FIELDS);
+    // A header or footer typed into on its page, with the body dimmed behind it.
+    const [inlineEditing, setInlineEditing] = useState<{ region: HeaderFooterRegion; pageIndex: number } | null>(null);
+    // Its focused column; the toolbar acts on it instead of the body meanwhile.
+    const [headerFooterEditor, setHeaderFooterEditor] = useState<Editor | null>(null);
+    // Bumped on the column's transactions so the toolbar shows its marks.
+    const [, setHeaderFooterRevision] = useState(0);
     const [fontFamily, setFontFamily] = useState<FontChoice>("default");
     const [lineSpacing, setLineSpacing] = useState(1.5);
     const [searchQuery, setSearchQuery] = useState("");
@@ -1131,6 +981,56 @@ export const PaginatedEditor = () => {
     const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
     const [searchRefreshKey, setSearchRefreshKey] = useState(0);
     const [saveNowFeedback, setSaveNowFeedback] = useState(false);
+    // A footnote just inserted, whose note text gets focus once it is placed on a page.
+    const [pendingFootnotePos, setPendingFootnotePos] = useState<number | null>(null);
+
+    // Pleading paper replaces the line spacing with its own grid.
+    const pleadingPitch = pageSetup.pleading.enabled ? getPleadingPitch(pageLayout, pageSetup.pleading) : null;
+    const editorLineHeight = pleadingPitch ? `${pleadingPitch}px` : `${lineSpacing}`;
+
+    // Kept as the same object until a region changes height, so typing in a
+    // header or footer does not reflow the body on every keystroke.
+    const regionHeightsRef = useRef<HeaderFooterHeights>(EMPTY_HEADER_FOOTER_HEIGHTS);
+    const regionHeights = useMemo(() => {
+        const next = getRegionHeights(headerFooter, headerFooterContentHeights, pageLayout);
+        if (areHeaderFooterHeightsEqual(regionHeightsRef.current, next)) return regionHeightsRef.current;
+        regionHeightsRef.current = next;
+        return next;
+    }, [headerFooter, headerFooterContentHeights, pageLayout]);
+    const { differentFirstPage, differentOddEven } = headerFooter;
+    // What each page's header and footer take past its margins. On pleading
+    // paper the body keeps to the numbered grid, so a grown header takes whole lines.
+    const pageInsets = useMemo(() => {
+        const snap = (inset: number) =>
+            pleadingPitch && inset > 0 ? Math.ceil(inset / pleadingPitch) * pleadingPitch : inset;
+        const insets = Object.fromEntries(
+            HEADER_FOOTER_SECTIONS.map((section) => [
+                section,
+                {
+                    top: snap(regionHeights.header[section] - pageLayout.marginTop),
+                    bottom: regionHeights.footer[section] - pageLayout.marginBottom,
+                },
+            ]),
+        ) as Record<HeaderFooterSection, PageInsets>;
+        const options = { differentFirstPage, differentOddEven };
+        return (pageIndex: number) => insets[getPageSection(options, pageIndex, pageStartNumber)];
+    }, [differentFirstPage, differentOddEven, pageLayout, pageStartNumber, pleadingPitch, regionHeights]);
+    // Flow mode caps images with one height for every page, so it takes the
+    // smallest body; the first three pages cover every section.
+    const minPageBodyHeight = useMemo(
+        () =>
+            Math.min(
+                ...[0, 1, 2].map((pageIndex) => {
+                    const { top, bottom } = pageInsets(pageIndex);
+                    return pageLayout.contentHeight - top - bottom;
+                }),
+            ),
+        [pageInsets, pageLayout],
+    );
+
+    const updateHeaderFooterContentHeights = useCallback((heights: HeaderFooterHeights) => {
+        setHeaderFooterContentHeights((current) => (areHeaderFooterHeightsEqual(current, heights) ? current : heights));
+    }, []);
 
     const measureHeight = useCallback(() => {
         if (!contentRef.current) return;
@@ -1138,8 +1038,8 @@ export const PaginatedEditor = () => {
     }, []);
 
     const editor = useEditor({
-        extensions: DEFAULT_EXTENSIONS,
-        content: DEFAULT_LETTER,
+        extensions: isStructural ? STRUCTURAL_EXTENSIONS : DEFAULT_EXTENSIONS,
+        content: isStructural ? `<div data-page-node="true">${DEFAULT_LETTER}</div>` : DEFAULT_LETTER,
         autofocus: "end",
         editorProps: {
             attributes: {
@@ -1153,7 +1053,6 @@ export const PaginatedEditor = () => {
         },
     });
 
-
     useEffect(() => {
         if (!contentRef.current || typeof ResizeObserver === "undefined") return;
         const observer = new ResizeObserver(() => measureHeight());
@@ -1163,16 +1062,37 @@ export const PaginatedEditor = () => {
     }, [measureHeight]);
 
     useEffect(() => {
-        const fallbackTotal = contentHeight + PAGE_MARGIN * 2 + PAGE_GAP;
-        const fallbackPages = Math.ceil(fallbackTotal / PAGE_STRIDE);
+        if (!editor || editor.isDestroyed) return;
+        const meta: FooterReserveMeta = { pageSetup, layout: pageLayout, pageInsets };
+        const paginationMeta: PaginationMeta = { pageSetup, pageInsets };
+        const tr = editor.state.tr.setMeta(footerReservePluginKey, meta).setMeta(paginationPluginKey, paginationMeta);
+        tr.setMeta("addToHistory", false);
+        editor.view.dispatch(tr);
+    }, [editor, pageInsets, pageLayout, pageSetup]);
+
+    useEffect(() => {
+        if (!editor || editor.isDestroyed) return;
+        const meta: TableOfContentsMeta = { pageStartNumber };
+        const tr = editor.state.tr.setMeta(tableOfContentsPluginKey, meta);
+        tr.setMeta("addToHistory", false);
+        editor.view.dispatch(tr);
+    }, [editor, pageStartNumber]);
+
+    useEffect(() => {
+        const fallbackTotal = contentHeight + pageLayout.gap;
+        const fallbackPages = Math.ceil(fallbackTotal / pageLayout.stride);
         if (!editor || !editor.view) {
             setPageCount(Math.max(1, fallbackPages));
             return;
         }
+        if (isStructural) {
+            setPageCount(Math.max(1, editor.state.doc.childCount));
+            return;
+        }
         const breaks = countPageBreaks(editor.view);
         const decorationPages = breaks + 1;
         setPageCount(Math.max(1, Math.max(decorationPages, fallbackPages)));
-    }, [contentHeight, editor]);
+    }, [contentHeight, editor, isStructural, pageLayout]);
 
     
 
@@ -1182,9 +1102,14 @@ export const PaginatedEditor = () => {
         const relativeScroll = Math.max(0, window.scrollY - containerTop);
         // Advance the active page only when the viewport reaches the bottom of a page
         // (so new pages appear when the last line is reached), rather than at the center.
-        const rawPage = Math.floor((relativeScroll + PAGE_HEIGHT - 4) / PAGE_HEIGHT) + 1;
+        const rawPage = Math.floor((relativeScroll + pageLayout.pageHeight - 4) / pageLayout.stride) + 1;
         setActivePage(Math.min(pageCount, Math.max(1, rawPage)));
-    }, [pageCount]);
+
+        // Overlays only render the pages near the viewport; keep the old window
+        // object while it still matches so scrolling within a page re-renders nothing.
+        const next = resolvePageWindow(window.scrollY - containerTop, window.innerHeight, pageLayout, pageCount);
+        setPageWindow((prev) => (prev.first === next.first && prev.last === next.last ? prev : next));
+    }, [pageCount, pageLayout]);
 
     useEffect(() => {
         updateActivePage();
@@ -1200,9 +1125,39 @@ export const PaginatedEditor = () => {
         };
     }, [updateActivePage]);
 
+    // Printed page numbers come from the overlay, so every page has to be in
+    // the DOM before the browser lays out the print. `beforeprint` is the last
+    // chance, hence the synchronous render.
+    useEffect(() => {
+        if (typeof window === "undefined") return;
+
+        const handleBeforePrint = () => flushSync(() => setIsPrinting(true));
+        const handleAfterPrint = () => setIsPrinting(false);
+        window.addEventListener("beforeprint", handleBeforePrint);
+        window.addEventListener("afterprint", handleAfterPrint);
+
+        return () => {
+            window.removeEventListener("beforeprint", handleBeforePrint);
+            window.removeEventListener("afterprint", handleAfterPrint);
+        };
+    }, []);
+
+    const visiblePages = isPrinting ? ALL_PAGES_WINDOW : pageWindow;
+
+    const pageMap = editor && !isStructural ? getPageMap(editor.state) : EMPTY_PAGE_MAP;
+    const editorDoc = editor?.state.doc ?? null;
+    const footnotesByPage = useMemo(
+        () =>
+            editorDoc
+                ? groupFootnotesByPage(editorDoc, pageMap, pageSetup.footnoteNumbering)
+                : new Map<number, PageFootnote[]>(),
+        [editorDoc, pageMap, pageSetup.footnoteNumbering],
+    );
+    const clearPendingFootnote = useCallback(() => setPendingFootnotePos(null), []);
+
     const documentHeight = Math.max(
-        pageCount * PAGE_HEIGHT + Math.max(0, pageCount - 1) * PAGE_GAP,
-        PAGE_HEIGHT,
+        pageCount * pageLayout.pageHeight + Math.max(0, pageCount - 1) * pageLayout.gap,
+        pageLayout.pageHeight,
     );
 
     const characters = editor?.storage?.characterCount?.characters() ?? 0;
@@ -1210,6 +1165,15 @@ export const PaginatedEditor = () => {
     const estimatedReadingMinutes = Math.max(1, Math.ceil(words / 200));
     const currentPageNumber = pageStartNumber + activePage - 1;
     const lastPageNumber = pageStartNumber + pageCount - 1;
+    // Field values shared by every page; the overlay adds each page's own number.
+    // "Total pages" is the last printed number, so "Page N of M" ends on M.
+    const headerFooterValues: Omit<HeaderFooterFieldValues, "page"> = {
+        pages: String(lastPageNumber),
+        title: documentTitle,
+        date: dayjs().format("MMMM D, YYYY"),
+        client: documentFields.clientName,
+        receipt: documentFields.receiptNumber,
+    };
     const hasSearchQuery = searchQuery.trim().length > 0;
     const hasMatches = searchMatches.length > 0;
     const searchStatusLabel = !hasSearchQuery
@@ -1219,18 +1183,25 @@ export const PaginatedEditor = () => {
             : "No matches";
     const resolvedFontFamily = fontFamily === "default" ? undefined : FONT_PRESETS[fontFamily];
 
-    const canHeading1 = editor ? editor.can().toggleHeading({ level: 1 }) : false;
-    const canHeading2 = editor ? editor.can().toggleHeading({ level: 2 }) : false;
-    const canHeading3 = editor ? editor.can().toggleHeading({ level: 3 }) : false;
-    const canBold = editor ? editor.can().toggleBold() : false;
-    const canItalic = editor ? editor.can().toggleItalic() : false;
-    const canUnderline = editor ? editor.can().toggleUnderline() : false;
-    const canAlignLeft = editor ? editor.can().setTextAlign("left") : false;
-    const canAlignCenter = editor ? editor.can().setTextAlign("center") : false;
-    const canAlignRight = editor ? editor.can().setTextAlign("right") : false;
-    const canJustify = editor ? editor.can().setTextAlign("justify") : false;
-    const canUndo = editor ? editor.can().undo() : false;
-    const canRedo = editor ? editor.can().redo() : false;
+    // Formatting follows whichever editor is being typed into; inserting
+    // body-only blocks waits until the header or footer is closed.
+    const isEditingHeaderFooter = inlineEditing !== null;
+    const inlineSection = inlineEditing ? getPageSection(headerFooter, inlineEditing.pageIndex, pageStartNumber) : "default";
+    const toolbarEditor = headerFooterEditor && !headerFooterEditor.isDestroyed ? headerFooterEditor : editor;
+    const canHeading1 = editor && !isEditingHeaderFooter ? editor.can().toggleHeading({ level: 1 }) : false;
+    const canHeading2 = editor && !isEditingHeaderFooter ? editor.can().toggleHeading({ level: 2 }) : false;
+    const canHeading3 = editor && !isEditingHeaderFooter ? editor.can().toggleHeading({ level: 3 }) : false;
+    const canBold = toolbarEditor ? toolbarEditor.can().toggleBold() : false;
+    const canItalic = toolbarEditor ? toolbarEditor.can().toggleItalic() : false;
+    const canUnderline = toolbarEditor ? toolbarEditor.can().toggleUnderline() : false;
+    const canAlignLeft = toolbarEditor ? toolbarEditor.can().setTextAlign("left") : false;
+    const canAlignCenter = toolbarEditor ? toolbarEditor.can().setTextAlign("center") : false;
+    const canAlignRight = toolbarEditor ? toolbarEditor.can().setTextAlign("right") : false;
+    const canJustify = toolbarEditor ? toolbarEditor.can().setTextAlign("justify") : false;
+    const canUndo = toolbarEditor ? toolbarEditor.can().undo() : false;
+    const isInTable = editor && !isEditingHeaderFooter ? editor.isActive("table") : false;
+    const canMergeOrSplit = editor && !isEditingHeaderFooter ? editor.can().mergeOrSplit() : false;
+    const canRedo = toolbarEditor ? toolbarEditor.can().redo() : false;
 
     const trimTrailingEmptyParagraphs = (docJson: any) => {
         if (!docJson || !Array.isArray(docJson.content)) return docJson;
@@ -1315,22 +1286,132 @@ export const PaginatedEditor = () => {
 
     const setAlignment = (alignment: "left" | "center" | "right" | "justify") => {
         if (alignment === "justify") {
-            runEditorCommand(editor, (instance) => instance.chain().focus().setTextAlign("justify").run());
+            runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().setTextAlign("justify").run());
             return;
         }
-        runEditorCommand(editor, (instance) => instance.chain().focus().setTextAlign(alignment).run());
+        runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().setTextAlign(alignment).run());
     };
 
     const clearFormatting = () => {
-        runEditorCommand(editor, (instance) => instance.chain().focus().unsetAllMarks().setParagraph().run());
+        runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().unsetAllMarks().setParagraph().run());
     };
 
     const insertDivider = () => {
         runEditorCommand(editor, (instance) => instance.chain().focus().setHorizontalRule().run());
     };
 
+    const insertPageBreak = () => {
+        runEditorCommand(editor, (instance) => instance.chain().focus().setPageBreak().run());
+    };
+
+    const insertFootnote = () => {
+        if (!editor) return;
+        let inserted = false;
+        runEditorCommand(editor, (instance) => {
+            inserted = instance.chain().focus().insertFootnote().run();
+        });
+        // The caret lands right after the new reference.
+        if (inserted) setPendingFootnotePos(editor.state.selection.from - 1);
+    };
+
+    const insertEndnote = () => {
+        runEditorCommand(editor, (instance) => instance.chain().focus().insertEndnote().run(), {
+            collapseSelection: false,
+        });
+    };
+
+    const updateFootnote = (pos: number, note: string) => {
+        editor?.commands.updateFootnote(pos, note);
+    };
+
+    const returnFromFootnote = (pos: number) => {
+        editor?.chain().focus(pos + 1).run();
+    };
+
+    const outline = editor ? collectOutline(editor.state.doc) : [];
+    const outlinePageNumbers = outline.map((entry) => {
+        if (!editor) return null;
+        const index = (isStructural ? getStructuralPageIndex : getFlowPageIndex)(editor.state, entry.pos);
+        return index === null ? null : pageStartNumber + index;
+    });
+
+    // Thumbnails re-serialize once typing pauses, and only while they are shown.
+    const showThumbnails = navigatorOpen && navigatorView === "pages";
+    const currentDoc = editor?.state.doc;
+    useEffect(() => {
+        if (!editor || editor.isDestroyed || !showThumbnails) return;
+        const handle = window.setTimeout(
+            () => setPageThumbnails(serializePages(editor.state, isStructural)),
+            THUMBNAIL_REFRESH_MS,
+        );
+        return () => window.clearTimeout(handle);
+    }, [editor, showThumbnails, isStructural, currentDoc, pageMap]);
+
+    // Measured after layout, so a caret on a freshly split page reports the new page.
+    const selectionHead = editor?.state.selection.head;
+    useEffect(() => {
+        if (!editor || editor.isDestroyed) return;
+        const frame = requestAnimationFrame(() => {
+            if (editor.isDestroyed || !contentRef.current) return;
+            const pagesTop = contentRef.current.getBoundingClientRect().top;
+            const bounds = getPageBounds(editor.state, isStructural);
+            setCaretPosition(measureCaretPosition(editor.view, pagesTop, pageLayout, bounds));
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [editor, isStructural, selectionHead, currentDoc, pageMap, pageLayout]);
+
+    useEffect(() => {
+        if (typeof window === "undefined") return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== "g") return;
+            event.preventDefault();
+            setGoToPageOpen(true);
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, []);
+
+    const navigateToOutlineEntry = (entry: OutlineEntry) => {
+        if (!editor) return;
+        const { state, view } = editor;
+        const pos = Math.min(entry.pos + 1, state.doc.content.size);
+        view.dispatch(state.tr.setSelection(TextSelection.near(state.doc.resolve(pos))));
+        view.focus();
+        centerViewportOnPos(view, pos);
+    };
+
+    const moveOutlineSection = (entry: OutlineEntry, target: number) => {
+        if (!editor || !editor.isEditable) return;
+        const tr = moveSection(editor.state, entry, target);
+        if (!tr) return;
+        editor.view.dispatch(tr);
+        editor.view.focus();
+        centerViewportOnPos(editor.view, editor.state.selection.from);
+    };
+
+    const handleImageFiles = (event: ChangeEvent<HTMLInputElement>) => {
+        const files = getImageFiles(event.target.files);
+        // Reset so picking the same file again still fires `change`.
+        event.target.value = "";
+        if (!editor || !files.length) return;
+        void insertImageFiles(editor, files);
+    };
+
+    const insertTableOfContents = () => {
+        runEditorCommand(editor, (instance) => instance.chain().focus().insertTableOfContents().run());
+    };
+
+    const insertTable = () => {
+        runEditorCommand(editor, (instance) => instance.chain().focus().insertTable(DEFAULT_TABLE_SIZE).run());
+    };
+
+    // Cell selections are meaningful for table commands, so they are left in place.
+    const runTableCommand = (command: (instance: Editor) => void) => {
+        runEditorCommand(editor, command, { collapseSelection: false });
+    };
+
     const insertHardBreak = () => {
-        runEditorCommand(editor, (instance) => instance.chain().focus().setHardBreak().run());
+        runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().setHardBreak().run());
     };
 
     const insertCurrentDate = () => {
@@ -1344,7 +1425,7 @@ export const PaginatedEditor = () => {
     };
 
     const insertSignatureBlock = () => {
-        const block = `<p>Sincerely,<br /><strong>LegalBridge LLP</strong><br />Authorized Signatory</p>`;
+        const block = `<p data-keep-together="true">Sincerely,<br /><strong>LegalBridge LLP</strong><br />Authorized Signatory</p>`;
         runEditorCommand(editor, (instance) => instance.chain().focus().insertContent(block).run());
     };
 
@@ -1354,13 +1435,13 @@ export const PaginatedEditor = () => {
     };
 
     const applyTextTransform = (transformFn: (text: string) => string) => {
-        if (!editor) return;
-        const { state } = editor;
+        if (!toolbarEditor) return;
+        const { state } = toolbarEditor;
         const { from, to } = state.selection;
         if (from === to) return;
         const text = state.doc.textBetween(from, to, "\n");
         const transformed = transformFn(text);
-        runEditorCommand(editor, (instance) =>
+        runEditorCommand(toolbarEditor, (instance) =>
             instance.chain().focus().insertContentAt({ from, to }, transformed).run(),
         );
     };
@@ -1559,11 +1640,11 @@ export const PaginatedEditor = () => {
     };
 
     const handleUndo = () => {
-        editor?.chain().focus().undo().run();
+        toolbarEditor?.chain().focus().undo().run();
     };
 
     const handleRedo = () => {
-        editor?.chain().focus().redo().run();
+        toolbarEditor?.chain().focus().redo().run();
     };
 
     const handlePageStartChange = (event: ChangeEvent<HTMLInputElement>) => {
@@ -1575,35 +1656,49 @@ export const PaginatedEditor = () => {
         setPageStartNumber(Math.max(1, value));
     };
 
-    const openEditor = (
-        region: "header" | "footer",
-        options?: { scroll?: boolean; pageIndex?: number; initialValue?: string },
-    ) => {
-        const source = options?.initialValue ?? (region === "header" ? headerText : footerText);
-        setDraftText(source ?? "");
+    // Opens the modal on the section the page at `pageIndex` (the active page by default) shows.
+    const openEditor = (region: HeaderFooterRegion, options?: { pageIndex?: number }) => {
+        const targetPage = typeof options?.pageIndex === "number" && options.pageIndex >= 0
+            ? options.pageIndex
+            : Math.max(0, activePage - 1);
+        stopInlineEditing({ focusBody: false });
+        setDraftHeaderFooter(headerFooter);
+        setDraftDocumentFields(documentFields);
+        setEditingSection(getPageSection(headerFooter, targetPage, pageStartNumber));
         setEditingRegion(region);
+    };
 
-        if (options?.scroll) {
-            const targetPage = typeof options.pageIndex === "number" && options.pageIndex >= 0
-                ? options.pageIndex
-                : Math.max(0, activePage - 1);
-            requestAnimationFrame(() => {
-                if (region === "header") {
-                    scrollToHeader(targetPage);
-                } else {
-                    scrollToFooter(targetPage);
-                }
-            });
+    const scrollToPage = (pageIndex: number) => {
+        if (!contentRef.current) return;
+        const pagesTop = contentRef.current.getBoundingClientRect().top + window.scrollY;
+        const target = pagesTop + pageIndex * pageLayout.stride - TOOLBAR_CLEARANCE_PX;
+        window.scrollTo({ top: Math.max(0, target), behavior: "smooth" });
+    };
+
+    // Scrolls to a printed page number and puts the caret at the top of it.
+    const goToPage = (pageNumber: number) => {
+        setGoToPageOpen(false);
+        const pageIndex = Math.min(pageCount - 1, Math.max(0, pageNumber - pageStartNumber));
+        scrollToPage(pageIndex);
+        if (!editor || editor.isDestroyed) return;
+        const { state, view } = editor;
+        const bounds = getPageBounds(state, isStructural)[pageIndex];
+        if (bounds) {
+            // `from` is a block boundary, or a text position when the page opens
+            // inside a split paragraph; `near` looks forward from either.
+            const pos = Math.min(bounds.from, state.doc.content.size);
+            view.dispatch(state.tr.setSelection(TextSelection.near(state.doc.resolve(pos))));
         }
+        view.focus();
     };
 
     const scrollToHeader = (pageIndex = Math.max(0, activePage - 1)) => {
         if (!scrollRef.current) return;
         const containerTop = scrollRef.current.getBoundingClientRect().top + window.scrollY;
-        const pageTop = pageIndex * (PAGE_HEIGHT + PAGE_GAP);
+        const pageTop = pageIndex * pageLayout.stride;
         const viewportHeight = window.innerHeight || document.documentElement.clientHeight;
         const elementTop = containerTop + pageTop;
-        const elementCenter = elementTop + PAGE_TOP_PADDING / 2;
+        const elementCenter = elementTop + pageLayout.marginTop / 2;
         const rawTarget = elementCenter - viewportHeight / 2;
         const maxScroll = Math.max(0, documentHeight - viewportHeight);
         const target = Math.max(0, Math.min(rawTarget, maxScroll));
@@ -1613,10 +1708,10 @@ export const PaginatedEditor = () => {
     const scrollToFooter = (pageIndex = Math.max(0, activePage - 1)) => {
         if (!scrollRef.current) return;
         const containerTop = scrollRef.current.getBoundingClientRect().top + window.scrollY;
-        const footerTop = pageIndex * (PAGE_HEIGHT + PAGE_GAP) + PAGE_HEIGHT - PAGE_FOOTER_HEIGHT;
+        const footerTop = pageIndex * pageLayout.stride + pageLayout.pageHeight - pageLayout.marginBottom;
         const viewportHeight = window.innerHeight || document.documentElement.clientHeight;
         const elementTop = containerTop + footerTop;
-        const elementCenter = elementTop + PAGE_FOOTER_HEIGHT / 2;
+        const elementCenter = elementTop + pageLayout.marginBottom / 2;
         const rawTarget = elementCenter - viewportHeight / 2;
         const maxScroll = Math.max(0, documentHeight - viewportHeight);
         const target = Math.max(0, Math.min(rawTarget, maxScroll));
@@ -1625,21 +1720,57 @@ export const PaginatedEditor = () => {
 
     const closeEditor = () => {
         setEditingRegion(null);
-        setDraftText("");
     };
 
-    const saveEditor = (value?: string) => {
+    // Types into the header or footer where `pageIndex` draws it, like double-clicking it in Word.
+    const startInlineEditing = (
+        region: HeaderFooterRegion,
+        pageIndex = Math.max(0, activePage - 1),
+        options?: { scroll?: boolean },
+    ) => {
+        setHeaderFooterEditor(null);
+        setInlineEditing({ region, pageIndex });
+        if (options?.scroll) {
+            requestAnimationFrame(() => (region === "header" ? scrollToHeader(pageIndex) : scrollToFooter(pageIndex)));
+        }
+    };
+
+    // Back to the body, where the caret still is.
+    const stopInlineEditing = ({ focusBody = true }: { focusBody?: boolean } = {}) => {
+        setInlineEditing(null);
+        setHeaderFooterEditor(null);
+        if (focusBody) editor?.commands.focus();
+    };
+
+    const refreshHeaderFooterToolbar = useCallback(() => setHeaderFooterRevision((revision) => revision + 1), []);
+
+    // Edits land straight in the section the page shows, so every page using it follows along.
+    const updateInlineColumn = (index: number, content: JSONContent) => {
+        if (!inlineEditing) return;
+        const { region, pageIndex } = inlineEditing;
+        setHeaderFooter((prev) => {
+            const section = getPageSection(prev, pageIndex, pageStartNumber);
+            const current = prev[region][section];
+            return withSectionContent(prev, region, section, {
+                ...current,
+                columns: current.columns.map((column, i) => (i === index ? { ...column, content } : column)),
+            });
+        });
+        setSaveStatus("unsaved");
+    };
+
+    const updateDraftSection = (section: HeaderFooterSection, value: HeaderFooterContent) => {
         if (!editingRegion) return;
-        const source = value !== undefined ? value : draftText;
-        const cleaned = (typeof source === "string" ? source : String(source)).trim();
+        setDraftHeaderFooter((prev) => withSectionContent(prev, editingRegion, section, value));
+    };
 
-        if (editingRegion === "header") {
-            setHeaderText(cleaned);
-        } else {
-            setFooterText(cleaned);
-        }
+    const saveEditor = (value?: HeaderFooterContent) => {
+        if (!editingRegion) return;
+        const content = value ?? draftHeaderFooter[editingRegion][editingSection];
+
+        setHeaderFooter(withSectionContent(draftHeaderFooter, editingRegion, editingSection, content));
+        setDocumentFields(draftDocumentFields);
         setEditingRegion(null);
-        setDraftText("");
         setSaveStatus("unsaved");
     };
 
@@ -1667,23 +1798,25 @@ export const PaginatedEditor = () => {
     }, [isDarkMode]);
 
     const applyHeaderTemplate = (key: "blank" | "three") => {
-        const template = key === "three"
-            ? "<p>Left</p>|||<p>Center</p>|||<p>Right</p>"
-            : "<p>Type header text</p>";
-        setHeaderText(template);
+        const template = createHeaderFooterContent(key === "three" ? ["Left", "Center", "Right"] : ["Type header text"]);
+        setHeaderFooter((prev) =>
+            withSectionContent(prev, "header", getPageSection(prev, Math.max(0, activePage - 1), pageStartNumber), template),
+        );
         setHeaderMenuOpen(false);
         setSaveStatus("unsaved");
-        requestAnimationFrame(() => openEditor("header", { scroll: true, initialValue: template }));
+        stopInlineEditing({ focusBody: false });
+        requestAnimationFrame(() => startInlineEditing("header", undefined, { scroll: true }));
     };
 
     const applyFooterTemplate = (key: "blank" | "three") => {
-        const template = key === "three"
-            ? "<p>Left</p>|||<p>Center</p>|||<p>Right</p>"
-            : "<p>Type footer text</p>";
-        setFooterText(template);
+        const template = createHeaderFooterContent(key === "three" ? ["Left", "Center", "Right"] : ["Type footer text"]);
+        setHeaderFooter((prev) =>
+            withSectionContent(prev, "footer", getPageSection(prev, Math.max(0, activePage - 1), pageStartNumber), template),
+        );
         setFooterMenuOpen(false);
         setSaveStatus("unsaved");
-        requestAnimationFrame(() => openEditor("footer", { scroll: true, initialValue: template }));
+        stopInlineEditing({ focusBody: false });
+        requestAnimationFrame(() => startInlineEditing("footer", undefined, { scroll: true }));
     };
 
     const persistDraft = useCallback(
@@ -1693,11 +1826,13 @@ export const PaginatedEditor = () => {
                 setSaveStatus("saving");
                 const payload = {
                     title: documentTitle,
-                    headerText,
-                    footerText,
+                    headerFooter,
+                    documentFields,
                     fontFamily,
                     lineSpacing,
-                    content: editor.getJSON(),
+                    pageSetup,
+                    // Drafts are always stored flat so either pagination mode can open them.
+                    content: toFlatContent(editor.getJSON()),
                     savedAt: new Date().toISOString(),
                 };
                 window.localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(payload));
@@ -1709,7 +1844,7 @@ export const PaginatedEditor = () => {
                 setSaveStatus("unsaved");
             }
         },
-        [documentTitle, editor, fontFamily, footerText, headerText, lineSpacing],
+        [documentFields, documentTitle, editor, fontFamily, headerFooter, lineSpacing, pageSetup],
     );
 
     useEffect(() => {
@@ -1728,21 +1863,35 @@ export const PaginatedEditor = () => {
             if (!raw) return;
             const parsed = JSON.parse(raw) as {
                 title?: string;
+                headerFooter?: unknown;
+                documentFields?: unknown;
                 headerText?: string;
                 footerText?: string;
                 fontFamily?: FontChoice;
                 lineSpacing?: number;
+                pageSetup?: unknown;
                 content?: unknown;
             };
             if (parsed.title) setDocumentTitle(parsed.title);
-            if (typeof parsed.headerText === "string") setHeaderText(parsed.headerText);
-            if (typeof parsed.footerText === "string") setFooterText(parsed.footerText);
+            // Older drafts store headers and footers as HTML strings: migrate them
+            // and write the draft back in the current format.
+            if (parsed.headerFooter || parsed.headerText !== undefined || parsed.footerText !== undefined) {
+                const migrated = normalizeHeaderFooter(parsed.headerFooter, parseHeaderFooterHtml, parsed);
+                setHeaderFooter(migrated);
+                if (isLegacyHeaderFooter(parsed.headerFooter)) {
+                    const { headerText: _headerText, footerText: _footerText, ...rest } = parsed;
+                    window.localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify({ ...rest, headerFooter: migrated }));
+                }
+            }
+            if (parsed.documentFields) setDocumentFields(normalizeDocumentFields(parsed.documentFields));
             if (parsed.fontFamily && parsed.fontFamily in FONT_PRESETS) setFontFamily(parsed.fontFamily);
             if (parsed.lineSpacing) setLineSpacing(parsed.lineSpacing);
+            if (parsed.pageSetup) setPageSetup(normalizePageSetup(parsed.pageSetup));
             if (parsed.content) {
-                editor.commands.setContent(parsed.content);
+                const content = parsed.content as JSONContent;
+                editor.commands.setContent(isStructural ? toPagedContent(content) : toFlatContent(content));
             }
-            if (parsed.content || parsed.headerText || parsed.footerText || parsed.title) {
+            if (parsed.content || parsed.headerFooter || parsed.headerText || parsed.footerText || parsed.title) {
                 setSaveStatus("saved");
                 setLastSavedAt(new Date());
             }
@@ -1750,7 +1899,7 @@ export const PaginatedEditor = () => {
             // eslint-disable-next-line no-console
             console.warn("Failed to hydrate draft", error);
         }
-    }, [editor]);
+    }, [editor, isStructural]);
 
     const saveStatusLabel = (() => {
         if (saveStatus === "saving") return "Saving…";
@@ -1867,6 +2016,29 @@ export const PaginatedEditor = () => {
                             </div>
 
                             <div className="flex items-center gap-1">
+                                <button
+                                    type="button"
+                                    onClick={() => setPageSetupOpen(true)}
+                                    className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white px-2 py-0.5 text-[10px] font-semibold text-slate-600 shadow-sm hover:border-slate-300 theme-pill"
+                                >
+                                    <FileCog className="h-3 w-3" />
+                                    Page Setup
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setShowRulers((prev) => !prev)}
+                                    aria-pressed={showRulers}
+                                    title="Show rulers and margin guides in inches"
+                                    className={cn(
+                                        "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-semibold shadow-sm theme-pill",
+                                        showRulers
+                                            ? "border-brand-200 bg-brand-50 text-brand-600"
+                                            : "border-slate-200 bg-white text-slate-600 hover:border-slate-300",
+                                    )}
+                                >
+                                    <Ruler className="h-3 w-3" />
+                                    Rulers
+                                </button>
                                 <button
                                     type="button"
                                     onClick={goPrint}
@@ -1881,7 +2053,7 @@ export const PaginatedEditor = () => {
 
                     <div className="toolbar mt-2 flex flex-col gap-2 rounded-xl border border-slate-200 bg-white px-3 py-2 shadow theme-surface">
                         <div className="flex flex-wrap items-center gap-2">
-                            <ColorPicker editor={editor} />
+                            <ColorPicker editor={toolbarEditor} />
 
                             <div className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-2 py-0.5 text-xs font-semibold text-slate-600 theme-pill theme-surface">
                                 <span className="uppercase tracking-[0.3em] text-[9px] text-slate-400">Font</span>
@@ -1923,10 +2095,10 @@ export const PaginatedEditor = () => {
                             </div>
 
                             <div className="flex flex-wrap items-center gap-1">
-                                <ToolbarButton label="Insert Date" icon={CalendarDays} onClick={insertCurrentDate} disabled={!editor} />
-                                <ToolbarButton label="Recipient Block" icon={Building2} onClick={insertRecipientBlock} disabled={!editor} />
-                                <ToolbarButton label="Signature" icon={FileSignature} onClick={insertSignatureBlock} disabled={!editor} />
-                                <ToolbarButton label="Contact Info" icon={Mail} onClick={insertContactBlock} disabled={!editor} />
+                                <ToolbarButton label="Insert Date" icon={CalendarDays} onClick={insertCurrentDate} disabled={!editor || isEditingHeaderFooter} />
+                                <ToolbarButton label="Recipient Block" icon={Building2} onClick={insertRecipientBlock} disabled={!editor || isEditingHeaderFooter} />
+                                <ToolbarButton label="Signature" icon={FileSignature} onClick={insertSignatureBlock} disabled={!editor || isEditingHeaderFooter} />
+                                <ToolbarButton label="Contact Info" icon={Mail} onClick={insertContactBlock} disabled={!editor || isEditingHeaderFooter} />
                                 <ToolbarButton
                                     label="Client Name"
                                     icon={UserRound}
@@ -1939,13 +2111,13 @@ export const PaginatedEditor = () => {
                                                 .run(),
                                         )
                                     }
-                                    disabled={!editor}
+                                    disabled={!editor || isEditingHeaderFooter}
                                 />
-                                <ToolbarButton label="Salutation" icon={ScrollText} onClick={insertSalutationBlock} disabled={!editor} />
-                                <ToolbarButton label="Exec Summary" icon={NotebookPen} onClick={insertExecutiveSummary} disabled={!editor} />
-                                <ToolbarButton label="Evidence List" icon={ListChecks} onClick={insertEvidenceChecklist} disabled={!editor} />
-                                <ToolbarButton label="Timeline" icon={Stamp} onClick={insertTimelineBlock} disabled={!editor} />
-                                <ToolbarButton label="Reminder" icon={Sparkles} onClick={insertReminderBanner} disabled={!editor} />
+                                <ToolbarButton label="Salutation" icon={ScrollText} onClick={insertSalutationBlock} disabled={!editor || isEditingHeaderFooter} />
+                                <ToolbarButton label="Exec Summary" icon={NotebookPen} onClick={insertExecutiveSummary} disabled={!editor || isEditingHeaderFooter} />
+                                <ToolbarButton label="Evidence List" icon={ListChecks} onClick={insertEvidenceChecklist} disabled={!editor || isEditingHeaderFooter} />
+                                <ToolbarButton label="Timeline" icon={Stamp} onClick={insertTimelineBlock} disabled={!editor || isEditingHeaderFooter} />
+                                <ToolbarButton label="Reminder" icon={Sparkles} onClick={insertReminderBanner} disabled={!editor || isEditingHeaderFooter} />
                                 <div className="ml-2 flex items-center gap-1">
                                     {/* Header dropdown (text-only button) */}
                                     <div className="relative">
@@ -1961,7 +2133,7 @@ export const PaginatedEditor = () => {
                                                 <button
                                                     type="button"
                                                     onClick={() => {
-                                                        openEditor("header", { scroll: true });
+                                                        startInlineEditing("header", undefined, { scroll: true });
                                                         setHeaderMenuOpen(false);
                                                     }}
                                                     className="w-full text-left px-3 py-2 hover:bg-slate-50"
@@ -2001,7 +2173,7 @@ export const PaginatedEditor = () => {
                                                 <button
                                                     type="button"
                                                     onClick={() => {
-                                                        openEditor("footer", { scroll: true });
+                                                        startInlineEditing("footer", undefined, { scroll: true });
                                                         setFooterMenuOpen(false);
                                                     }}
                                                     className="w-full text-left px-3 py-2 hover:bg-slate-50"
@@ -2122,12 +2294,12 @@ export const PaginatedEditor = () => {
                             <div className="ml-auto flex items-center gap-2">
                                 <button
                                     type="button"
-                                    title={`Current page ${currentPageNumber}`}
+                                    title={`Current page ${currentPageNumber} · Go to page… (Ctrl+G)`}
                                     className={cn(
                                         "inline-flex h-7 items-center gap-1 rounded-full border px-2 text-[10px] font-semibold uppercase tracking-[0.25em] whitespace-nowrap shadow-sm theme-pill",
                                         "bg-white/80 border-slate-200 text-slate-500"
                                     )}
-                                    onClick={() => null}
+                                    onClick={() => setGoToPageOpen(true)}
                                 >
                                     {currentPageNumber}
                                 </button>
@@ -2178,36 +2350,36 @@ export const PaginatedEditor = () => {
                                 label="Bold"
                                 icon={Bold}
                                 onClick={() =>
-                                    runEditorCommand(editor, (instance) => instance.chain().focus().toggleBold().run())
+                                    runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().toggleBold().run())
                                 }
-                                isActive={editor?.isActive("bold")}
+                                isActive={toolbarEditor?.isActive("bold")}
                                 disabled={!canBold}
                             />
                             <ToolbarButton
                                 label="Italic"
                                 icon={Italic}
                                 onClick={() =>
-                                    runEditorCommand(editor, (instance) => instance.chain().focus().toggleItalic().run())
+                                    runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().toggleItalic().run())
                                 }
-                                isActive={editor?.isActive("italic")}
+                                isActive={toolbarEditor?.isActive("italic")}
                                 disabled={!canItalic}
                             />
                             <ToolbarButton
                                 label="Underline"
                                 icon={UnderlineIcon}
                                 onClick={() =>
-                                    runEditorCommand(editor, (instance) => instance.chain().focus().toggleUnderline().run())
+                                    runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().toggleUnderline().run())
                                 }
-                                isActive={editor?.isActive("underline")}
+                                isActive={toolbarEditor?.isActive("underline")}
                                 disabled={!canUnderline}
                             />
                             <ToolbarButton
                                 label="Strike"
                                 icon={Strikethrough}
                                 onClick={() =>
-                                    runEditorCommand(editor, (instance) => instance.chain().focus().toggleStrike().run())
+                                    runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().toggleStrike().run())
                                 }
-                                isActive={editor?.isActive("strike")}
+                                isActive={toolbarEditor?.isActive("strike")}
                             />
 
                             <ToolbarDivider />
@@ -2216,28 +2388,28 @@ export const PaginatedEditor = () => {
                                 label="Align Left"
                                 icon={AlignLeft}
                                 onClick={() => setAlignment("left")}
-                                isActive={editor?.isActive({ textAlign: "left" })}
+                                isActive={toolbarEditor?.isActive({ textAlign: "left" })}
                                 disabled={!canAlignLeft}
                             />
                             <ToolbarButton
                                 label="Align Center"
                                 icon={AlignCenter}
                                 onClick={() => setAlignment("center")}
-                                isActive={editor?.isActive({ textAlign: "center" })}
+                                isActive={toolbarEditor?.isActive({ textAlign: "center" })}
                                 disabled={!canAlignCenter}
                             />
                             <ToolbarButton
                                 label="Align Right"
                                 icon={AlignRight}
                                 onClick={() => setAlignment("right")}
-                                isActive={editor?.isActive({ textAlign: "right" })}
+                                isActive={toolbarEditor?.isActive({ textAlign: "right" })}
                                 disabled={!canAlignRight}
                             />
                             <ToolbarButton
                                 label="Justify"
                                 icon={AlignJustify}
                                 onClick={() => setAlignment("justify")}
-                                isActive={editor?.isActive({ textAlign: "justify" })}
+                                isActive={toolbarEditor?.isActive({ textAlign: "justify" })}
                                 disabled={!canJustify}
                             />
 
@@ -2254,6 +2426,7 @@ export const PaginatedEditor = () => {
                                     runEditorCommand(editor, (instance) => instance.chain().focus().toggleBulletList().run())
                                 }
                                 isActive={editor?.isActive("bulletList")}
+                                disabled={!editor || isEditingHeaderFooter}
                             />
                             <ToolbarButton
                                 label="Numbered List"
@@ -2262,6 +2435,7 @@ export const PaginatedEditor = () => {
                                     runEditorCommand(editor, (instance) => instance.chain().focus().toggleOrderedList().run())
                                 }
                                 isActive={editor?.isActive("orderedList")}
+                                disabled={!editor || isEditingHeaderFooter}
                             />
                             <ToolbarButton
                                 label="Block Quote"
@@ -2270,60 +2444,188 @@ export const PaginatedEditor = () => {
                                     runEditorCommand(editor, (instance) => instance.chain().focus().toggleBlockquote().run())
                                 }
                                 isActive={editor?.isActive("blockquote")}
+                                disabled={!editor || isEditingHeaderFooter}
+                            />
+                            <ToolbarButton
+                                label="Keep With Next"
+                                icon={Link2}
+                                onClick={() =>
+                                    runEditorCommand(
+                                        editor,
+                                        (instance) => instance.chain().focus().toggleKeepWithNext().run(),
+                                        { collapseSelection: false },
+                                    )
+                                }
+                                isActive={isKeepActive(editor, "keepWithNext")}
+                                disabled={!editor || isEditingHeaderFooter}
+                            />
+                            <ToolbarButton
+                                label="Keep Lines Together"
+                                icon={Group}
+                                onClick={() =>
+                                    runEditorCommand(
+                                        editor,
+                                        (instance) => instance.chain().focus().toggleKeepTogether().run(),
+                                        { collapseSelection: false },
+                                    )
+                                }
+                                isActive={isKeepActive(editor, "keepTogether")}
+                                disabled={!editor || isEditingHeaderFooter}
                             />
                             <ToolbarButton
                                 label="Code"
                                 icon={Code}
                                 onClick={() =>
-                                    runEditorCommand(editor, (instance) => instance.chain().focus().toggleCode().run())
+                                    runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().toggleCode().run())
                                 }
-                                isActive={editor?.isActive("code")}
+                                isActive={toolbarEditor?.isActive("code")}
                             />
                             <ToolbarButton
                                 label="Highlight"
                                 icon={Highlighter}
                                 onClick={() =>
-                                    runEditorCommand(editor, (instance) => instance.chain().focus().toggleHighlight().run())
+                                    runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().toggleHighlight().run())
                                 }
-                                isActive={editor?.isActive("highlight")}
+                                isActive={toolbarEditor?.isActive("highlight")}
                             />
                             <ToolbarButton
                                 label="Uppercase"
                                 icon={ArrowUpAZ}
                                 onClick={makeUppercase}
                                 isActive={false}
-                                disabled={!editor}
+                                disabled={!toolbarEditor}
                             />
                             <ToolbarButton
                                 label="Lowercase"
                                 icon={ArrowDownAZ}
                                 onClick={makeLowercase}
                                 isActive={false}
-                                disabled={!editor}
+                                disabled={!toolbarEditor}
                             />
                             <ToolbarButton
                                 label="Subscript"
                                 icon={SubscriptIcon}
                                 onClick={() =>
-                                    runEditorCommand(editor, (instance) => instance.chain().focus().toggleSubscript().run())
+                                    runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().toggleSubscript().run())
                                 }
-                                isActive={editor?.isActive("subscript")}
+                                isActive={toolbarEditor?.isActive("subscript")}
                             />
                             <ToolbarButton
                                 label="Superscript"
                                 icon={SuperscriptIcon}
                                 onClick={() =>
-                                    runEditorCommand(editor, (instance) => instance.chain().focus().toggleSuperscript().run())
+                                    runEditorCommand(toolbarEditor, (instance) => instance.chain().focus().toggleSuperscript().run())
                                 }
-                                isActive={editor?.isActive("superscript")}
+                                isActive={toolbarEditor?.isActive("superscript")}
+                            />
+                            <ToolbarButton
+                                label={isStructural ? "Footnotes need flow pagination" : "Insert Footnote (Ctrl+Alt+F)"}
+                                icon={Asterisk}
+                                onClick={insertFootnote}
+                                disabled={!editor || isStructural || isEditingHeaderFooter}
+                            />
+                            <ToolbarButton
+                                label="Insert Endnote (Ctrl+Alt+E)"
+                                icon={BookMarked}
+                                onClick={insertEndnote}
+                                disabled={!editor || isEditingHeaderFooter}
                             />
 
                             <ToolbarDivider />
 
-                            <ToolbarButton label="Insert Divider" icon={Minus} onClick={insertDivider} isActive={false} />
+                            <ToolbarButton
+                                label="Insert Divider"
+                                icon={Minus}
+                                onClick={insertDivider}
+                                isActive={false}
+                                disabled={!editor || isEditingHeaderFooter}
+                            />
                             <ToolbarButton label="Hard Break" icon={CornerDownLeft} onClick={insertHardBreak} isActive={false} />
+                            <ToolbarButton
+                                label="Page Break (Ctrl+Enter)"
+                                icon={SeparatorHorizontal}
+                                onClick={insertPageBreak}
+                                isActive={false}
+                                disabled={!editor || isEditingHeaderFooter}
+                            />
+                            <ToolbarButton
+                                label="Insert Table of Contents"
+                                icon={ListTree}
+                                onClick={insertTableOfContents}
+                                disabled={!editor || isEditingHeaderFooter}
+                            />
+
+                            <ToolbarDivider />
+
+                            <ToolbarButton
+                                label="Insert Image"
+                                icon={ImagePlus}
+                                onClick={() => imageInputRef.current?.click()}
+                                disabled={!editor || isEditingHeaderFooter}
+                            />
+                            <input
+                                ref={imageInputRef}
+                                type="file"
+                                accept="image/*"
+                                multiple
+                                className="hidden"
+                                onChange={handleImageFiles}
+                            />
+                            <ToolbarButton label="Insert Table" icon={Table} onClick={insertTable} disabled={!editor || isEditingHeaderFooter} />
+                            <ToolbarButton
+                                label="Add Row Below"
+                                icon={BetweenHorizontalEnd}
+                                onClick={() => runTableCommand((instance) => instance.chain().focus().addRowAfter().run())}
+                                disabled={!isInTable}
+                            />
+                            <ToolbarButton
+                                label="Add Column Right"
+                                icon={BetweenVerticalEnd}
+                                onClick={() =>
+                                    runTableCommand((instance) => instance.chain().focus().addColumnAfter().run())
+                                }
+                                disabled={!isInTable}
+                            />
+                            <ToolbarButton
+                                label="Delete Row"
+                                icon={Rows3}
+                                onClick={() => runTableCommand((instance) => instance.chain().focus().deleteRow().run())}
+                                disabled={!isInTable}
+                            />
+                            <ToolbarButton
+                                label="Delete Column"
+                                icon={Columns3}
+                                onClick={() => runTableCommand((instance) => instance.chain().focus().deleteColumn().run())}
+                                disabled={!isInTable}
+                            />
+                            <ToolbarButton
+                                label={editor?.can().mergeCells() ? "Merge Cells" : "Split Cell"}
+                                icon={editor?.can().mergeCells() ? TableCellsMerge : TableCellsSplit}
+                                onClick={() => runTableCommand((instance) => instance.chain().focus().mergeOrSplit().run())}
+                                disabled={!canMergeOrSplit}
+                            />
+                            <ToolbarButton
+                                label="Header Row (repeats on each page)"
+                                icon={TableProperties}
+                                onClick={() =>
+                                    runTableCommand((instance) => instance.chain().focus().toggleHeaderRow().run())
+                                }
+                                disabled={!isInTable}
+                            />
+                            <ToolbarButton
+                                label="Delete Table"
+                                icon={Trash2}
+                                onClick={() => runTableCommand((instance) => instance.chain().focus().deleteTable().run())}
+                                disabled={!isInTable}
+                            />
 
                             <div className="ml-auto inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-0.5 text-[11px] font-semibold text-slate-600 shadow-sm theme-pill">
+                                {caretPosition ? (
+                                    <span title="Caret position: printed page, line on the page, column">
+                                        Pg {pageStartNumber + caretPosition.pageIndex}, Ln {caretPosition.line}, Col{" "}
+                                        {caretPosition.column} ·
+                                    </span>
+                                ) : null}
                                 <span>{words} words</span>
                                 <span>· {characters} chars</span>
                                 <span>· ~{estimatedReadingMinutes} min</span>
@@ -2341,48 +2643,187 @@ export const PaginatedEditor = () => {
                     <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Pagination monitor</p>
                 </header>
 
-                <div className="bg-slate-100/70 px-6 py-6 theme-canvas">
-                    <div className="relative flex justify-center" style={{ minHeight: documentHeight }}>
-                        <PageOverlay pageCount={pageCount} />
-                        <HeaderFooterOverlay
-                            pageCount={pageCount}
-                            headerText={headerText}
-                            footerText={footerText}
-                            onHeaderDoubleClick={() => openEditor("header")}
-                            onFooterDoubleClick={() => openEditor("footer")}
-                            onHeaderClick={(idx) => scrollToHeader(idx)}
-                            onFooterClick={(idx) => scrollToFooter(idx)}
-                        />
-                        <PageGapMask pageCount={pageCount} />
-                        <PageTopPaddingMask pageCount={pageCount} />
-                        <PageBottomPaddingMask pageCount={pageCount} />
-                        {showPageNumbers ? (
-                            <PageFooterOverlays pageCount={pageCount} startNumber={pageStartNumber} />
-                        ) : null}
-
-                        <div className="relative z-10 w-full max-w-[1100px]">
-                            <div
-                                ref={contentRef}
-                                className="printable-page relative mx-auto min-h-[11in] w-full max-w-[1100px] rounded-md bg-transparent"
-                                style={{
-                                    padding: `${PAGE_MARGIN}px`,
-                                    paddingLeft: `${PAGE_SIDE_PADDING}px`,
-                                    paddingRight: `${PAGE_SIDE_PADDING}px`,
-                                    paddingTop: `${PAGE_TOP_PADDING}px`,
-                                    paddingBottom: `${PAGE_BOTTOM_PADDING}px`,
-                                    minHeight: `${PAGE_HEIGHT}px`,
-                                }}
-                            >
-                                <EditorContent
-                                    editor={editor}
-                                    aria-label="Letter editor"
-                                    className="tiptap"
-                                    style={{
-                                        fontFamily: resolvedFontFamily,
-                                        lineHeight: lineSpacing,
-                                ["--editor-line-height" as any]: `${lineSpacing}`,
-                                    }}
+                <div className="flex items-start gap-6 bg-slate-100/70 px-6 py-6 theme-canvas">
+                    <NavigatorSidebar
+                        open={navigatorOpen}
+                        view={navigatorView}
+                        onToggle={() => setNavigatorOpen((open) => !open)}
+                        onViewChange={setNavigatorView}
+                    >
+                        {navigatorView === "outline" ? (
+                            <OutlineList
+                                entries={outline}
+                                pageNumbers={outlinePageNumbers}
+                                onNavigate={navigateToOutlineEntry}
+                                onMove={moveOutlineSection}
+                            />
+                        ) : (
+                            <PageThumbnails
+                                pages={pageThumbnails}
+                                activePage={activePage}
+                                startNumber={pageStartNumber}
+                                layout={pageLayout}
+                                fontFamily={resolvedFontFamily}
+                                lineHeight={editorLineHeight}
+                                snapToGrid={pleadingPitch !== null}
+                                onSelect={scrollToPage}
+                            />
+                        )}
+                    </NavigatorSidebar>
+                    <div className="min-w-0 flex-1 overflow-x-auto">
+                        <div
+                            className="relative mx-auto flex justify-center"
+                            style={{ minHeight: documentHeight, width: pageLayout.pageWidth }}
+                        >
+                            {isStructural ? null : <PageOverlay pageCount={pageCount} visiblePages={visiblePages} layout={pageLayout} />}
+                            <HeaderFooterOverlay
+                                pageCount={pageCount}
+                                visiblePages={visiblePages}
+                                layout={pageLayout}
+                                headerFooter={headerFooter}
+                                heights={regionHeights}
+                                startNumber={pageStartNumber}
+                                values={headerFooterValues}
+                                onHeaderDoubleClick={(idx) => startInlineEditing("header", idx)}
+                                onFooterDoubleClick={(idx) => startInlineEditing("footer", idx)}
+                                onHeaderClick={(idx) => scrollToHeader(idx)}
+                                onFooterClick={(idx) => scrollToFooter(idx)}
+                            />
+                            <HeaderFooterMeasure
+                                layout={pageLayout}
+                                headerFooter={headerFooter}
+                                values={headerFooterValues}
+                                onMeasure={updateHeaderFooterContentHeights}
+                            />
+                            {inlineEditing ? (
+                                <HeaderFooterInlineEditor
+                                    key={`${inlineEditing.region}-${inlineEditing.pageIndex}-${inlineSection}`}
+                                    region={inlineEditing.region}
+                                    pageIndex={inlineEditing.pageIndex}
+                                    sectionLabel={getSectionLabel(inlineSection, headerFooter)}
+                                    layout={pageLayout}
+                                    content={headerFooter[inlineEditing.region][inlineSection]}
+                                    height={regionHeights[inlineEditing.region][inlineSection]}
+                                    onColumnChange={updateInlineColumn}
+                                    onFocusEditor={setHeaderFooterEditor}
+                                    onTransaction={refreshHeaderFooterToolbar}
+                                    onInsertField={(field) =>
+                                        headerFooterEditor?.chain().focus().insertHeaderFooterField(field).run()
+                                    }
+                                    onOptions={() =>
+                                        openEditor(inlineEditing.region, { pageIndex: inlineEditing.pageIndex })
+                                    }
+                                    onExit={() => stopInlineEditing()}
+                                />
+                            ) : null}
+                            {isStructural ? null : (
+                                <>
+                                    <PageGapMask pageCount={pageCount} visiblePages={visiblePages} layout={pageLayout} />
+                                    <PageTopPaddingMask
+                                        pageCount={pageCount}
+                                        visiblePages={visiblePages}
+                                        layout={pageLayout}
+                                        pageInsets={pageInsets}
+                                    />
+                                    <PageBottomPaddingMask
+                                        pageCount={pageCount}
+                                        visiblePages={visiblePages}
+                                        layout={pageLayout}
+                                        pageInsets={pageInsets}
+                                    />
+                                </>
+                            )}
+                            {pleadingPitch ? (
+                                <>
+                                    <PleadingOverlay
+                                        pageCount={pageCount}
+                                        visiblePages={visiblePages}
+                                        layout={pageLayout}
+                                        pleading={pageSetup.pleading}
+                                        pitch={pleadingPitch}
+                                    />
+                                    <div aria-hidden className="pleading-print">
+                                        <PleadingColumn layout={pageLayout} pleading={pageSetup.pleading} pitch={pleadingPitch} />
+                                    </div>
+                                </>
+                            ) : null}
+                            {showPageNumbers ? (
+                                <PageFooterOverlays
+                                    pageCount={pageCount}
+                                    visiblePages={visiblePages}
+                                    startNumber={pageStartNumber}
+                                    layout={pageLayout}
                                 />
+                            ) : null}
+                            {isStructural ? null : (
+                                <FootnoteOverlay
+                                    pages={pageMap.pages}
+                                    visiblePages={visiblePages}
+                                    layout={pageLayout}
+                                    pageInsets={pageInsets}
+                                    footnotes={footnotesByPage}
+                                    fontFamily={resolvedFontFamily}
+                                    focusPos={pendingFootnotePos}
+                                    onFocused={clearPendingFootnote}
+                                    onChange={updateFootnote}
+                                    onReturn={returnFromFootnote}
+                                />
+                            )}
+                            {showRulers ? (
+                                <MeasurementOverlay pageCount={pageCount} visiblePages={visiblePages} layout={pageLayout} />
+                            ) : null}
+
+                            <div className="relative z-10 w-full">
+                                <div
+                                    ref={contentRef}
+                                    className={cn(
+                                        "printable-page relative mx-auto w-full rounded-md bg-transparent",
+                                        isEditingHeaderFooter && "header-footer-editing",
+                                    )}
+                                    // A click on the dimmed body leaves the header or footer, like Word.
+                                    onMouseDown={isEditingHeaderFooter ? () => stopInlineEditing({ focusBody: false }) : undefined}
+                                    style={
+                                        isStructural
+                                            ? {
+                                                  // Page nodes draw their own sheets from these.
+                                                  ["--page-width" as any]: `${pageLayout.pageWidth}px`,
+                                                  ["--page-height" as any]: `${pageLayout.pageHeight}px`,
+                                                  ["--page-gap" as any]: `${pageLayout.gap}px`,
+                                                  ["--page-padding" as any]: `${pageLayout.marginTop}px ${pageLayout.marginRight}px ${pageLayout.marginBottom}px ${pageLayout.marginLeft}px`,
+                                                  ["--page-padding-top" as any]: `${pageLayout.marginTop}px`,
+                                                  ["--page-padding-bottom" as any]: `${pageLayout.marginBottom}px`,
+                                                  ["--page-content-height" as any]: `${pageLayout.contentHeight}px`,
+                                              }
+                                            : {
+                                                  paddingLeft: `${pageLayout.marginLeft}px`,
+                                                  paddingRight: `${pageLayout.marginRight}px`,
+                                                  paddingTop: `${pageLayout.marginTop + pageInsets(0).top}px`,
+                                                  paddingBottom: `${pageLayout.marginBottom}px`,
+                                                  minHeight: `${pageLayout.pageHeight}px`,
+                                                  // Images never grow past the page body.
+                                                  ["--page-content-height" as any]: `${minPageBodyHeight}px`,
+                                              }
+                                    }
+                                >
+                                    <HeaderFooterPrint
+                                        pageCount={pageCount}
+                                        layout={pageLayout}
+                                        headerFooter={headerFooter}
+                                        heights={regionHeights}
+                                        startNumber={pageStartNumber}
+                                        values={headerFooterValues}
+                                    />
+                                    <EditorContent
+                                        editor={editor}
+                                        aria-label="Letter editor"
+                                        className={cn("tiptap", pleadingPitch !== null && "pleading-grid")}
+                                        style={{
+                                            fontFamily: resolvedFontFamily,
+                                            lineHeight: editorLineHeight,
+                                            ["--editor-line-height" as any]: editorLineHeight,
+                                        }}
+                                    />
+                                </div>
                             </div>
                         </div>
                     </div>
@@ -2392,627 +2833,43 @@ export const PaginatedEditor = () => {
             {editingRegion ? (
                 <HeaderFooterEditModal
                     region={editingRegion}
-                    value={draftText}
-                    onChange={setDraftText}
+                    section={editingSection}
+                    settings={draftHeaderFooter}
+                    onSectionChange={setEditingSection}
+                    onSettingsChange={setDraftHeaderFooter}
+                    onChange={updateDraftSection}
+                    fields={draftDocumentFields}
+                    onFieldsChange={setDraftDocumentFields}
                     onCancel={closeEditor}
                     onSave={saveEditor}
                 />
             ) : null}
+            {goToPageOpen ? (
+                <GoToPageDialog
+                    firstPage={pageStartNumber}
+                    lastPage={lastPageNumber}
+                    initialPage={
+                        caretPosition ? pageStartNumber + caretPosition.pageIndex : currentPageNumber
+                    }
+                    onCancel={() => setGoToPageOpen(false)}
+                    onGo={goToPage}
+                />
+            ) : null}
+            {pageSetupOpen ? (
+                <PageSetupDialog
+                    value={pageSetup}
+                    onCancel={() => setPageSetupOpen(false)}
+                    onApply={(next) => {
+                        setPageSetup(next);
+                        setPageSetupOpen(false);
+                        setSaveStatus("unsaved");
+                    }}
+                />
+            ) : null}
             <style jsx global>{DARK_MODE_STYLES}</style>
+            <style jsx global>{`${buildPrintStyles(pageLayout, isStructural ? 0 : pageInsets(0).top)}`}</style>
         </div>
     );
 
     return null;
 };
-
-type PageOverlayProps = {
-    pageCount: number;
-};
-
-const PageOverlay = ({ pageCount }: PageOverlayProps) => {
-    const overlayHeight = Math.max(pageCount * PAGE_HEIGHT + Math.max(0, pageCount - 1) * PAGE_GAP, PAGE_HEIGHT);
-
-    return (
-        <div
-            aria-hidden
-            className="pointer-events-none absolute left-1/2 top-0 z-0 -translate-x-1/2 -translate-y-px"
-            style={{ height: overlayHeight, width: "100%" }}
-        >
-            {Array.from({ length: pageCount }).map((_, index) => {
-                const top = index * (PAGE_HEIGHT + PAGE_GAP);
-                return (
-                    <div
-                        key={`page-bg-${index}`}
-                        className="absolute w-full max-w-[1100px] rounded-[18px] border border-slate-200 bg-white shadow-[0_30px_70px_rgba(15,23,42,0.18)] theme-page"
-                        style={{ height: `${PAGE_HEIGHT}px`, top: `${top}px` }}
-                    />
-                );
-            })}
-
-            {Array.from({ length: Math.max(0, pageCount - 1) }).map((_, index) => {
-                const top = (index + 1) * PAGE_HEIGHT + index * PAGE_GAP;
-                return (
-                    <div
-                        key={`page-gap-${index}`}
-                        className="absolute flex w-full justify-center"
-                        style={{ top: `${top}px`, height: `${PAGE_GAP}px` }}
-                    >
-                        <div className="h-full w-[90%] max-w-[1100px] rounded-full bg-slate-200/70 blur-xl theme-gap" />
-                    </div>
-                );
-            })}
-        </div>
-    );
-};
-
-type PageGapMaskProps = {
-    pageCount: number;
-};
-
-const PageGapMask = ({ pageCount }: PageGapMaskProps) => (
-    <div aria-hidden className="pointer-events-none absolute left-1/2 top-0 z-20 -translate-x-1/2 w-full">
-        {Array.from({ length: Math.max(0, pageCount - 1) }).map((_, index) => {
-            const top = (index + 1) * PAGE_HEIGHT + index * PAGE_GAP;
-            const height = PAGE_GAP;
-            return (
-                <div
-                    key={`gap-mask-${index}`}
-                    className="absolute left-0 right-0 overflow-hidden"
-                    style={{ top: `${top}px`, height: `${height}px` }}
-                >
-                    <div className="mx-auto h-full w-full max-w-[1100px] rounded-[18px] bg-slate-100 shadow-[inset_0_10px_30px_rgba(15,23,42,0.10)] theme-page" />
-                    <div className="absolute inset-0 bg-slate-100 theme-page" />
-                </div>
-            );
-        })}
-    </div>
-);
-
-type PageFooterOverlaysProps = {
-    pageCount: number;
-    startNumber: number;
-};
-
-const PageFooterOverlays = ({ pageCount, startNumber }: PageFooterOverlaysProps) => (
-    <div aria-hidden className="page-footer-overlay pointer-events-none absolute inset-0 z-30">
-        {Array.from({ length: pageCount }).map((_, index) => {
-            const pageTop = index * (PAGE_HEIGHT + PAGE_GAP);
-            const overlayTop = pageTop + PAGE_HEIGHT - PAGE_FOOTER_HEIGHT;
-
-            return (
-                <div
-                    key={`divider-${index}`}
-                    className="absolute left-1/2 -translate-x-1/2 w-full max-w-[1100px]"
-                    style={{ top: `${overlayTop}px`, height: `${PAGE_FOOTER_HEIGHT}px` }}
-                >
-                    <div className="relative h-full">
-                        <div className="absolute right-4 bottom-4 flex items-end justify-end">
-                            <span className="text-[12px] font-semibold uppercase tracking-[0.45em] text-slate-500 theme-muted">
-                                Page {startNumber + index}
-                            </span>
-                        </div>
-                    </div>
-                </div>
-            );
-        })}
-    </div>
-);
-
-type PageTopPaddingMaskProps = {
-    pageCount: number;
-};
-
-const PageTopPaddingMask = ({ pageCount }: PageTopPaddingMaskProps) => (
-    <div aria-hidden className="pointer-events-none absolute left-1/2 top-0 z-25 -translate-x-1/2 w-full">
-        {Array.from({ length: Math.max(0, pageCount - 1) }).map((_, index) => {
-            const pageIndex = index + 1;
-            const top = pageIndex * (PAGE_HEIGHT + PAGE_GAP);
-            return (
-                <div
-                    key={`top-pad-mask-${pageIndex}`}
-                    className="absolute left-0 right-0"
-                    style={{ top: `${top}px`, height: `${PAGE_TOP_PADDING}px` }}
-                >
-                    <div className="mx-auto h-full w-full max-w-[1100px] rounded-t-[18px] bg-white theme-page" />
-                </div>
-            );
-        })}
-    </div>
-);
-
-type PageBottomPaddingMaskProps = {
-    pageCount: number;
-};
-
-const PageBottomPaddingMask = ({ pageCount }: PageBottomPaddingMaskProps) => (
-    <div aria-hidden className="pointer-events-none absolute left-1/2 top-0 z-25 -translate-x-1/2 w-full">
-        {Array.from({ length: pageCount }).map((_, index) => {
-            const top = index * (PAGE_HEIGHT + PAGE_GAP) + (PAGE_HEIGHT - PAGE_BOTTOM_PADDING);
-            return (
-                <div
-                    key={`bottom-pad-mask-${index}`}
-                    className="absolute left-0 right-0"
-                    style={{ top: `${top}px`, height: `${PAGE_BOTTOM_PADDING}px` }}
-                >
-                    <div className="mx-auto h-full w-full max-w-[1100px] rounded-b-[18px] bg-white theme-page" />
-                </div>
-            );
-        })}
-    </div>
-);
-
-type HeaderFooterOverlayProps = {
-    pageCount: number;
-    headerText: string;
-    footerText: string;
-    onHeaderDoubleClick: () => void;
-    onFooterDoubleClick: () => void;
-    onHeaderClick?: (pageIndex: number) => void;
-    onFooterClick?: (pageIndex: number) => void;
-};
-
-const HeaderFooterOverlay = ({
-    pageCount,
-    headerText,
-    footerText,
-    onHeaderDoubleClick,
-    onFooterDoubleClick,
-    onHeaderClick,
-    onFooterClick,
-}: HeaderFooterOverlayProps) => (
-    <div className="pointer-events-none absolute left-1/2 top-0 z-20 -translate-x-1/2 w-full">
-        {Array.from({ length: pageCount }).map((_, index) => {
-            const pageTop = index * (PAGE_HEIGHT + PAGE_GAP);
-            const footerTop = pageTop + PAGE_HEIGHT - PAGE_FOOTER_HEIGHT + PAGE_FOOTER_BORDER_OFFSET;
-
-            const headerHas = typeof headerText === "string" && headerText.replace(/\|\|\|/g, "").trim().length > 0;
-            const footerHas = typeof footerText === "string" && footerText.replace(/\|\|\|/g, "").trim().length > 0;
-
-            return (
-                <div key={`hf-${index}`}>
-                    <div
-                        className={cn(
-                            "pointer-events-auto absolute left-1/2 flex w-full max-w-[1100px] -translate-x-1/2 items-center justify-center rounded-t-md bg-white px-4 py-2 text-slate-600 shadow theme-overlay",
-                            headerHas ? "border-b-2 border-slate-700" : ""
-                        )}
-                        style={{ top: `${pageTop}px`, height: `${PAGE_TOP_PADDING}px`, padding: "0 1rem" }}
-                        onDoubleClick={onHeaderDoubleClick}
-                        onClick={() => onHeaderClick?.(index)}
-                        role="button"
-                        tabIndex={0}
-                    >
-                            <div className="text-center w-full">
-                                {headerText ? (
-                                    (() => {
-                                        const isCols = typeof headerText === "string" && (headerText.includes("|||") || /\s{2,}/.test(headerText));
-                                        if (isCols) {
-                                            const parts = headerText.includes("|||")
-                                                ? headerText.split("|||").map((s) => s.trim())
-                                                : headerText.split(/\s{2,}/).map((s) => s.trim());
-                                            const cols = [parts[0] ?? "", parts[1] ?? "", parts[2] ?? ""];
-                                            return (
-                                                <div className="mx-auto flex w-full max-w-[95%] items-center justify-between">
-                                                    {cols.map((c, i) => (
-                                                        <div
-                                                            key={i}
-                                                            className="flex-1 px-2 text-[13px] font-semibold text-slate-800 text-center truncate"
-                                                            dangerouslySetInnerHTML={asHtml(c)}
-                                                        />
-                                                    ))}
-                                                </div>
-                                            );
-                                        }
-
-                                        return (
-                                            <div className="mx-auto max-w-[95%]">
-                                                <div
-                                                    className="text-[13px] font-semibold text-slate-800 truncate"
-                                                    dangerouslySetInnerHTML={asHtml(headerText)}
-                                                />
-                                            </div>
-                                        );
-                                    })()
-                                ) : (
-                                    <span className="text-[9px] font-semibold uppercase tracking-[0.25em] text-slate-400">
-                                        Double click to edit header (applies to all pages)
-                                    </span>
-                                )}
-                            </div>
-                    </div>
-
-                    <div
-                        className={cn(
-                            "pointer-events-auto absolute left-1/2 flex w-full max-w-[1100px] -translate-x-1/2 items-center justify-center rounded-b-md bg-white text-slate-600 shadow theme-overlay",
-                            footerHas ? "border-t-2 border-slate-700" : ""
-                        )}
-                        style={{ top: `${footerTop}px`, height: `${PAGE_FOOTER_BORDER_HEIGHT}px`, padding: "0 1rem" }}
-                        onDoubleClick={onFooterDoubleClick}
-                        onClick={() => onFooterClick?.(index)}
-                        role="button"
-                        tabIndex={0}
-                    >
-                        <div className="text-center w-full">
-                            {footerText ? (
-                                (() => {
-                                    const isCols = typeof footerText === "string" && (footerText.includes("|||") || /\s{2,}/.test(footerText));
-                                    if (isCols) {
-                                        const parts = footerText.includes("|||")
-                                            ? footerText.split("|||").map((s) => s.trim())
-                                            : footerText.split(/\s{2,}/).map((s) => s.trim());
-                                        const cols = [parts[0] ?? "", parts[1] ?? "", parts[2] ?? ""];
-                                        return (
-                                            <div className="mx-auto flex w-full max-w-[95%] items-center justify-between">
-                                                {cols.map((c, i) => (
-                                                    <div
-                                                        key={i}
-                                                        className="flex-1 px-2 text-[12px] font-medium text-slate-700 text-center truncate"
-                                                        dangerouslySetInnerHTML={asHtml(c)}
-                                                    />
-                                                ))}
-                                            </div>
-                                        );
-                                    }
-
-                                    return (
-                                        <div className="mx-auto max-w-[95%]">
-                                            <div
-                                                className="text-[12px] font-medium text-slate-700 truncate"
-                                                dangerouslySetInnerHTML={asHtml(footerText)}
-                                            />
-                                        </div>
-                                    );
-                                })()
-                            ) : (
-                                <span className="text-[9px] font-semibold uppercase tracking-[0.25em] text-slate-400 text-center">
-                                    Double click to edit footer (applies to all pages)
-                                </span>
-                            )}
-                        </div>
-                    </div>
-                </div>
-            );
-        })}
-    </div>
-);
-
-type HeaderFooterEditModalProps = {
-    region: "header" | "footer";
-    value: string;
-    onChange: (value: string) => void;
-    onCancel: () => void;
-    onSave: (value?: string) => void;
-};
-
-const HEADER_FOOTER_EDITOR_EXTENSIONS = [
-    StarterKit,
-    TextStyle,
-    Color,
-    Highlight,
-    Underline,
-    Superscript,
-    Subscript,
-    TextAlign.configure({ types: ["heading", "paragraph"] }),
-];
-
-const ensureSegmentLayout = (target: 1 | 3, source: string[]) => {
-    if (target === 3) {
-        const [a = "", b = "", c = ""] = source;
-        return [a, b, c];
-    }
-    return [source[0] ?? ""];
-};
-
-const joinSegments = (segmentsToJoin: string[], targetLayout: 1 | 3) => {
-    const normalized = ensureSegmentLayout(targetLayout, segmentsToJoin);
-    return targetLayout === 3 ? normalized.slice(0, 3).join("|||") : normalized[0];
-};
-
-const parseSegments = (raw: string) => {
-    const nextLayout: 1 | 3 = raw.includes("|||") ? 3 : 1;
-    const parts = nextLayout === 3 ? raw.split("|||") : [raw];
-    return { layout: nextLayout, segments: ensureSegmentLayout(nextLayout, parts) };
-};
-
-const ALIGN_OPTIONS: Array<"left" | "center" | "right" | "justify"> = ["left", "center", "right", "justify"];
-
-const HeaderFooterEditModal = ({ region, value, onChange, onCancel, onSave }: HeaderFooterEditModalProps) => {
-    const title = region === "header" ? "Header" : "Footer";
-    const initialParsedRef = useRef(parseSegments(value));
-    const [layout, setLayout] = useState<1 | 3>(initialParsedRef.current.layout);
-    const [segments, setSegments] = useState<string[]>(initialParsedRef.current.segments);
-    const [activeIndex, setActiveIndex] = useState(0);
-    const layoutRef = useRef(layout);
-    const activeIndexRef = useRef(activeIndex);
-    const segmentsRef = useRef(segments);
-    const internalValueRef = useRef(value);
-
-    useEffect(() => {
-        layoutRef.current = layout;
-    }, [layout]);
-
-    useEffect(() => {
-        activeIndexRef.current = activeIndex;
-    }, [activeIndex]);
-
-    useEffect(() => {
-        segmentsRef.current = segments;
-    }, [segments]);
-
-    const editor = useEditor({
-        extensions: HEADER_FOOTER_EDITOR_EXTENSIONS,
-        content: segments[activeIndex] || "<p></p>",
-        autofocus: "end",
-        onUpdate({ editor: instance }) {
-            const html = instance.getHTML();
-            setSegments((prev) => {
-                const next = [...prev];
-                next[activeIndexRef.current] = html;
-                const joined = joinSegments(next, layoutRef.current);
-                internalValueRef.current = joined;
-                onChange(joined);
-                return next;
-            });
-        },
-    });
-
-    useEffect(() => {
-        if (value === internalValueRef.current) return;
-        const next = parseSegments(value);
-        internalValueRef.current = value;
-        setLayout(next.layout);
-        layoutRef.current = next.layout;
-        setSegments(next.segments);
-        segmentsRef.current = next.segments;
-        setActiveIndex(0);
-        activeIndexRef.current = 0;
-        if (editor) {
-            editor.commands.setContent(next.segments[0] || "<p></p>", false);
-            editor.commands.focus("end");
-        }
-    }, [value, editor]);
-
-    useEffect(() => {
-        if (!editor) return;
-        const currentSegments = segmentsRef.current ?? [];
-        editor.commands.setContent(currentSegments[activeIndex] || "<p></p>", false);
-        editor.commands.focus("end");
-    }, [editor, activeIndex]);
-
-    const handleLayoutChange = (target: 1 | 3) => {
-        const normalized = ensureSegmentLayout(target, segmentsRef.current ?? []);
-        setLayout(target);
-        layoutRef.current = target;
-        setSegments(normalized);
-        segmentsRef.current = normalized;
-        setActiveIndex(0);
-        activeIndexRef.current = 0;
-        const joined = joinSegments(normalized, target);
-        internalValueRef.current = joined;
-        onChange(joined);
-        if (editor) {
-            editor.commands.setContent(normalized[0] || "<p></p>", false);
-            editor.commands.focus("end");
-        }
-    };
-
-    const handleSegmentSwitch = (index: number) => {
-        setActiveIndex(index);
-    };
-
-    const insertCurrentDateToModal = () => {
-        if (!editor) return;
-        // Insert plain text (no span tags) so the editor stores rendered text rather than raw HTML
-        const text = dayjs().format("MMMM D, YYYY");
-        editor.chain().focus().insertContent(text).run();
-    };
-
-    const finalValue = joinSegments(segments, layout);
-
-    return (
-        <div
-            className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 theme-modal-overlay"
-            onClick={onCancel}
-            role="presentation"
-        >
-            <div
-                className="w-full max-w-3xl rounded-2xl bg-white p-6 shadow-2xl theme-modal"
-                onClick={(event) => event.stopPropagation()}
-            >
-                <p className="text-xs font-semibold uppercase tracking-[0.35em] text-brand-500">{title} editor</p>
-                <h2 className="mt-1 text-lg font-semibold text-slate-900">{title} (shows on every page)</h2>
-
-                <div className="mt-4 flex flex-wrap items-center gap-2">
-                    <span className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">Layout</span>
-                    <button
-                        type="button"
-                        onClick={() => handleLayoutChange(1)}
-                        className={cn(
-                            "rounded-full border px-3 py-1 text-xs font-semibold",
-                            layout === 1 ? "border-brand-500 text-brand-600" : "border-slate-200 text-slate-500",
-                        )}
-                    >
-                        Single
-                    </button>
-                    <button
-                        type="button"
-                        onClick={() => handleLayoutChange(3)}
-                        className={cn(
-                            "rounded-full border px-3 py-1 text-xs font-semibold",
-                            layout === 3 ? "border-brand-500 text-brand-600" : "border-slate-200 text-slate-500",
-                        )}
-                    >
-                        Three Columns
-                    </button>
-                </div>
-
-                {layout === 3 ? (
-                    <div className="mt-4 flex gap-2">
-                        {["Left", "Center", "Right"].map((label, idx) => (
-                            <button
-                                key={label}
-                                type="button"
-                                onClick={() => handleSegmentSwitch(idx)}
-                                className={cn(
-                                    "flex-1 rounded-lg border px-3 py-2 text-xs font-semibold uppercase tracking-[0.2em]",
-                                    activeIndex === idx
-                                        ? "border-brand-500 bg-brand-50 text-brand-600"
-                                        : "border-slate-200 text-slate-500",
-                                )}
-                            >
-                                {label}
-                            </button>
-                        ))}
-                    </div>
-                ) : null}
-
-                <div className="mt-4 flex flex-wrap items-center gap-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
-                    {editor ? (
-                        <>
-                            <button
-                                type="button"
-                                onClick={() => editor.chain().focus().toggleBold().run()}
-                                className={cn(
-                                    "rounded-md px-2 py-1 text-xs font-semibold",
-                                    editor.isActive("bold") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
-                                )}
-                            >
-                                Bold
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => editor.chain().focus().toggleItalic().run()}
-                                className={cn(
-                                    "rounded-md px-2 py-1 text-xs font-semibold",
-                                    editor.isActive("italic") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
-                                )}
-                            >
-                                Italic
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => editor.chain().focus().toggleUnderline().run()}
-                                className={cn(
-                                    "rounded-md px-2 py-1 text-xs font-semibold",
-                                    editor.isActive("underline") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
-                                )}
-                            >
-                                Underline
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => editor.chain().focus().toggleStrike().run()}
-                                className={cn(
-                                    "rounded-md px-2 py-1 text-xs font-semibold",
-                                    editor.isActive("strike") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
-                                )}
-                            >
-                                Strike
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => editor.chain().focus().toggleHighlight().run()}
-                                className={cn(
-                                    "rounded-md px-2 py-1 text-xs font-semibold",
-                                    editor.isActive("highlight") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
-                                )}
-                            >
-                                Highlight
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => editor.chain().focus().toggleBulletList().run()}
-                                className={cn(
-                                    "rounded-md px-2 py-1 text-xs font-semibold",
-                                    editor.isActive("bulletList") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
-                                )}
-                            >
-                                Bullet
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => editor.chain().focus().toggleOrderedList().run()}
-                                className={cn(
-                                    "rounded-md px-2 py-1 text-xs font-semibold",
-                                    editor.isActive("orderedList") ? "bg-slate-900 text-white" : "bg-white text-slate-600",
-                                )}
-                            >
-                                Numbered
-                            </button>
-                            <div className="flex items-center gap-1">
-                                {ALIGN_OPTIONS.map((align) => (
-                                    <button
-                                        type="button"
-                                        key={align}
-                                        onClick={() => editor.chain().focus().setTextAlign(align).run()}
-                                        className={cn(
-                                            "rounded-md px-2 py-1 text-xs font-semibold capitalize",
-                                            editor.isActive({ textAlign: align })
-                                                ? "bg-slate-900 text-white"
-                                                : "bg-white text-slate-600",
-                                        )}
-                                    >
-                                        {align}
-                                    </button>
-                                ))}
-                            </div>
-                            <div className="flex items-center gap-1">
-                                {COLOR_SWATCHES.map((swatch) => (
-                                    <button
-                                        type="button"
-                                        key={swatch.value}
-                                        onClick={() => editor.chain().focus().setColor(swatch.value).run()}
-                                        className="h-5 w-5 rounded-full border border-white shadow"
-                                        style={{ backgroundColor: swatch.value }}
-                                        title={swatch.label}
-                                    />
-                                ))}
-                                <button
-                                    type="button"
-                                    onClick={() => editor.chain().focus().unsetColor().run()}
-                                    className="rounded-full border border-slate-300 px-2 py-0.5 text-[10px] text-slate-500"
-                                >
-                                    Reset Color
-                                </button>
-                            </div>
-                            <button
-                                type="button"
-                                onClick={insertCurrentDateToModal}
-                                className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600"
-                            >
-                                Insert Date
-                            </button>
-                        </>
-                    ) : null}
-                </div>
-
-                <div className="mt-4 rounded-xl border border-slate-200 bg-white p-4 shadow-inner">
-                    {editor ? <EditorContent editor={editor} /> : null}
-                </div>
-
-                <div className="mt-6 flex justify-end gap-2">
-                    <button
-                        type="button"
-                        onClick={() => onSave("")}
-                        className="rounded-full border border-red-200 bg-red-50 px-4 py-2 text-sm font-semibold text-red-600 hover:border-red-300"
-                    >
-                        Delete
-                    </button>
-                    <button
-                        type="button"
-                        onClick={onCancel}
-                        className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 hover:border-slate-300"
-                    >
-                        Cancel
-                    </button>
-                    <button
-                        type="button"
-                        onClick={() => onSave(finalValue)}
-                        className="rounded-full bg-brand-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-brand-500"
-                    >
-                        Save
-                    </button>
-                </div>
-            </div>
-        </div>
-    );
-};
@@ -0,0 +1,63 @@
+"use client";
+
+import type { ComponentType } from "react";
+
+import { cn } from "@/lib/utils";
+
+export const COLOR_SWATCHES = [
+    { label: "Slate", value: "#0f172a" },
+    { label: "Indigo", value: "#4338ca" },
+    { label: "Brand", value: "#5741f5" },
+    { label: "Emerald", value: "#059669" },
+    { label: "Rose", value: "#be123c" },
+    { label: "Amber", value: "#b45309" },
+];
+
+type ToolbarButtonProps = {
+    label: string;
+    icon: ComponentType<{ className?: string }>;
+    isActive?: boolean;
+    onClick: () => void;
+    disabled?: boolean;
+};
+
+export const ToolbarButton = ({ label, icon: Icon, isActive = false, onClick, disabled = false }: ToolbarButtonProps) => (
+    <button
+        type="button"
+        title={label}
+        className={cn(
+            "inline-flex h-7 w-7 flex-none items-center justify-center rounded-md border text-[11px] font-medium transition theme-icon-button",
+            isActive ? "border-brand-500 bg-brand-50 text-brand-600" : "border-slate-200 bg-white text-slate-600",
+            disabled && "cursor-not-allowed opacity-40",
+        )}
+        onClick={onClick}
+        disabled={disabled}
+    >
+        <Icon className="h-3.5 w-3.5" />
+    </button>
+);
+
+export const ToolbarDivider = () => <span className="mx-1 h-5 w-px bg-slate-200" aria-hidden="true" />;
+
+type HeaderIconButtonProps = {
+    icon: ComponentType<{ className?: string }>;
+    label: string;
+    onClick: () => void;
+    disabled?: boolean;
+};
+
+export const HeaderIconButton = ({ icon: Icon, label, onClick, disabled = false }: HeaderIconButtonProps) => (
+    <button
+        type="button"
+        aria-label={label}
+        title={label}
+        className={cn(
+            "inline-flex h-7 w-7 items-center justify-center rounded-full border text-slate-600 transition theme-icon-button",
+            disabled ? "cursor-not-allowed opacity-40" : "bg-white hover:border-slate-400",
+        )}
+        onClick={onClick}
+        disabled={disabled}
+    >
+        <Icon className="h-3.5 w-3.5" />
+    </button>
+);
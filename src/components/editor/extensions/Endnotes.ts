@@ -0,0 +1,265 @@
+"use client";
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import type { Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { NodeSelection, Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
+import type { EditorState } from "@tiptap/pm/state";
+import type { NodeView } from "@tiptap/pm/view";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    endnote: {
+      insertEndnote: (note?: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Endnotes: a superscript reference whose note text lives on the reference,
+ * and a read-only "Notes" section at the end of the document listing every
+ * note in reference order. The section and the reference numbers are
+ * regenerated after any edit that adds, removes or reorders references, so
+ * they are ordinary content for pagination, print and `getHTML()`.
+ */
+
+const ENDNOTES_TITLE = "Notes";
+
+// Sits inside the last page in structural mode, at the very end otherwise.
+const getSectionEnd = (doc: ProseMirrorNode) =>
+  doc.lastChild?.type.name === "page" ? doc.content.size - 1 : doc.content.size;
+
+const buildEndnotesTransaction = (state: EditorState) => {
+  const { doc, schema, tr } = state;
+  const refs: Array<{ pos: number; node: ProseMirrorNode }> = [];
+  const sections: Array<{ pos: number; node: ProseMirrorNode }> = [];
+
+  doc.descendants((node, pos) => {
+    if (node.type.name === "endnotes") {
+      sections.push({ pos, node });
+      return false;
+    }
+    if (node.type.name === "endnote") refs.push({ pos, node });
+    return true;
+  });
+
+  refs.forEach(({ pos, node }, index) => {
+    if (node.attrs.number !== index + 1) {
+      tr.setNodeMarkup(pos, undefined, { ...node.attrs, number: index + 1 });
+    }
+  });
+
+  const section = refs.length
+    ? schema.nodes.endnotes.create(
+        null,
+        refs.map(({ node }) =>
+          schema.nodes.endnoteItem.create(null, node.attrs.note ? schema.text(String(node.attrs.note)) : null)
+        )
+      )
+    : null;
+
+  const [current] = sections;
+  const upToDate =
+    sections.length === (section ? 1 : 0) &&
+    (!section || (current.node.eq(section) && current.pos + current.node.nodeSize === getSectionEnd(doc)));
+  if (!upToDate) {
+    sections
+      .slice()
+      .reverse()
+      .forEach(({ pos, node }) => tr.delete(pos, pos + node.nodeSize));
+    if (section) tr.insert(getSectionEnd(tr.doc), section);
+  }
+
+  return tr.docChanged ? tr : null;
+};
+
+const createEndnoteView = (
+  editor: Editor,
+  initialNode: ProseMirrorNode,
+  getPos: () => number | undefined
+): NodeView => {
+  let node = initialNode;
+
+  const dom = document.createElement("span");
+  dom.className = "endnote-ref";
+
+  const number = document.createElement("sup");
+  number.className = "endnote-ref__number";
+  dom.appendChild(number);
+
+  const input = document.createElement("input");
+  input.className = "endnote-ref__editor";
+  input.placeholder = "Endnote text";
+  input.setAttribute("aria-label", "Endnote text");
+  dom.appendChild(input);
+
+  const render = () => {
+    number.textContent = String(node.attrs.number ?? "");
+    dom.title = node.attrs.note ?? "";
+    if (document.activeElement !== input) input.value = node.attrs.note ?? "";
+  };
+
+  const save = () => {
+    const pos = getPos();
+    const note = input.value.trim();
+    if (typeof pos !== "number" || !editor.isEditable || note === node.attrs.note) return;
+    editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, note }));
+  };
+
+  // Back to the body, with the caret just after the reference.
+  const leave = () => {
+    const pos = getPos();
+    input.blur();
+    if (typeof pos !== "number") return;
+    const { state } = editor.view;
+    editor.view.dispatch(state.tr.setSelection(TextSelection.create(state.doc, pos + node.nodeSize)));
+    editor.view.focus();
+  };
+
+  input.addEventListener("change", save);
+  input.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") {
+      input.value = node.attrs.note ?? "";
+    } else if (event.key !== "Enter") {
+      return;
+    }
+    event.preventDefault();
+    save();
+    leave();
+  });
+
+  render();
+
+  return {
+    dom,
+    update: (updated) => {
+      if (updated.type !== node.type) return false;
+      node = updated;
+      render();
+      return true;
+    },
+    selectNode: () => {
+      dom.classList.add("ProseMirror-selectednode");
+      // A new reference goes straight to its note text.
+      if (!node.attrs.note) input.focus();
+    },
+    deselectNode: () => dom.classList.remove("ProseMirror-selectednode"),
+    stopEvent: (event) => event.target === input,
+    ignoreMutation: () => true
+  };
+};
+
+export const Endnote = Node.create({
+  name: "endnote",
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      note: {
+        default: "",
+        parseHTML: (element: HTMLElement) => element.getAttribute("data-note") ?? "",
+        renderHTML: (attributes: Record<string, unknown>) => ({
+          "data-note": attributes.note,
+          title: attributes.note
+        })
+      },
+      number: {
+        default: 1,
+        rendered: false
+      }
+    };
+  },
+
+  parseHTML() {
+    // Ahead of the Superscript mark, which claims every `sup`.
+    return [{ tag: "sup[data-endnote]", priority: 60 }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      "sup",
+      mergeAttributes(HTMLAttributes, { "data-endnote": "true", class: "endnote-ref" }),
+      String(node.attrs.number)
+    ];
+  },
+
+  renderText({ node }) {
+    return `[${node.attrs.number}]`;
+  },
+
+  addNodeView() {
+    return ({ editor, node, getPos }) => createEndnoteView(editor, node, getPos);
+  },
+
+  addCommands() {
+    return {
+      insertEndnote:
+        (note = "") =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            const node = this.type.create({ note });
+            tr.replaceSelectionWith(node, false);
+            // Selecting the reference opens its note field.
+            tr.setSelection(NodeSelection.create(tr.doc, tr.selection.from - node.nodeSize));
+          }
+          return true;
+        }
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-Alt-e": () => this.editor.commands.insertEndnote()
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey("endnotes"),
+        appendTransaction: (transactions, _oldState, newState) =>
+          transactions.some((tr) => tr.docChanged) ? buildEndnotesTransaction(newState) : null
+      })
+    ];
+  }
+});
+
+export const EndnotesSection = Node.create({
+  name: "endnotes",
+  group: "block",
+  content: "endnoteItem+",
+  isolating: true,
+  selectable: false,
+
+  parseHTML() {
+    return [{ tag: "section[data-endnotes]", contentElement: "ol" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "section",
+      mergeAttributes(HTMLAttributes, { "data-endnotes": "true", class: "endnotes", contenteditable: "false" }),
+      ["h2", { class: "endnotes__title" }, ENDNOTES_TITLE],
+      ["ol", 0]
+    ];
+  }
+});
+
+export const EndnoteItem = Node.create({
+  name: "endnoteItem",
+  content: "text*",
+  marks: "",
+
+  parseHTML() {
+    return [{ tag: "section[data-endnotes] li", priority: 60 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["li", mergeAttributes(HTMLAttributes, { class: "endnotes__item" }), 0];
+  }
+});
+
+export const EndnoteExtensions = [Endnote, EndnotesSection, EndnoteItem];
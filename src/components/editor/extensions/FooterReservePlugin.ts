@@ -0,0 +1,532 @@
+"use client";
+
+import { Extension } from "@tiptap/core";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import type { EditorState } from "@tiptap/pm/state";
+import { DOMSerializer } from "@tiptap/pm/model";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import type { EditorView } from "@tiptap/pm/view";
+import { DEFAULT_PAGE_LAYOUT, DEFAULT_PAGE_SETUP, FOOTNOTE_SEPARATOR } from "../pageSetup";
+import type { FootnoteNumbering, PageLayout, PageSetup } from "../pageSetup";
+import { EMPTY_PAGE_MAP, NO_PAGE_INSETS, getCarryHeight, paginate } from "../paginate";
+import type { PageFiller, PageFillerKind, PageInsets, PageMap, PaginateIncremental } from "../paginate";
+import { collectBlockRects, createFootnoteElement, readMeasureEnv } from "../measure";
+import type { PageBounds } from "../measure";
+import { getColumnCount, getHeaderRows } from "./Tables";
+import { numberFootnotes } from "./Footnotes";
+
+/**
+ * Flow pagination: after each edit the plugin measures the document, runs
+ * `paginate` (incrementally from the first changed block) and draws the page
+ * map as filler, repeated-header and print footnote decorations. The map is
+ * kept in the plugin state for everything else that reads pages.
+ */
+
+type FooterReserveState = {
+  decorations: DecorationSet;
+  pageMap: PageMap;
+  pageSetup: PageSetup;
+  layout: PageLayout;
+  // Room the headers and footers take past the margins on each page.
+  pageInsets: (pageIndex: number) => PageInsets;
+};
+
+export type FooterReserveMeta = Partial<FooterReserveState>;
+
+export const footerReservePluginKey = new PluginKey<FooterReserveState>("footer-reserve");
+
+export const getPageLayout = (state: EditorState): PageLayout =>
+  footerReservePluginKey.getState(state)?.layout ?? DEFAULT_PAGE_LAYOUT;
+
+export const getPageMap = (state: EditorState): PageMap =>
+  footerReservePluginKey.getState(state)?.pageMap ?? EMPTY_PAGE_MAP;
+
+export const countPageBreaks = (view: EditorView): number => Math.max(0, getPageMap(view.state).pageCount - 1);
+
+// Index of the page a block starts on: the last page opening at or before `pos`.
+export const getFlowPageIndex = (state: EditorState, pos: number): number | null => {
+  const { pages } = getPageMap(state);
+  if (!pages.length) return null;
+  let low = 0;
+  let high = pages.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (pages[mid].from <= pos) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+// The document range printed on each page. Flow pages end where their filler
+// starts, which may be between two lines of a split paragraph; structural
+// pages are the page nodes' content.
+export const getPageBounds = (state: EditorState, structural: boolean): PageBounds[] => {
+  const { doc } = state;
+  if (structural) {
+    const bounds: PageBounds[] = [];
+    doc.forEach((page, offset) => bounds.push({ from: offset + 1, to: offset + page.nodeSize - 1 }));
+    return bounds;
+  }
+
+  const { pageCount, fillers } = getPageMap(state);
+  const pageEnds = new Map<number, number>();
+  fillers.forEach((filler) => {
+    if (filler.kind !== "tail") pageEnds.set(filler.pageIndex, filler.pos);
+  });
+  const size = doc.content.size;
+  let from = 0;
+  return Array.from({ length: Math.max(1, pageCount) }, (_, index) => {
+    const to = Math.min(size, Math.max(from, pageEnds.get(index) ?? size));
+    const bounds = { from, to };
+    from = to;
+    return bounds;
+  });
+};
+
+// HTML for each page's share of the document.
+export const serializePages = (state: EditorState, structural: boolean): string[] => {
+  const serializer = DOMSerializer.fromSchema(state.schema);
+  return getPageBounds(state, structural).map(({ from, to }) => {
+    const container = document.createElement("div");
+    container.appendChild(serializer.serializeFragment(state.doc.slice(from, to).content));
+    return container.innerHTML;
+  });
+};
+
+// Split fillers sit inside a textblock between two lines, so they render as a
+// block-level span to keep the paragraph markup valid. Between table rows the
+// filler is itself a row, with one cell spanning all `columns`.
+const createSpacerDecoration = (
+  pos: number,
+  height: number,
+  key: string,
+  {
+    inline = false,
+    printBreak = true,
+    kind = "break",
+    columns = 0,
+    printInset = 0
+  }: { inline?: boolean; printBreak?: boolean; kind?: PageFillerKind; columns?: number; printInset?: number } = {}
+) =>
+  Decoration.widget(
+    pos,
+    () => {
+      const spacerHeight = Math.max(0, height);
+      let el: HTMLElement;
+      if (columns > 0) {
+        el = document.createElement("tr");
+        el.className = "page-break-filler";
+        el.style.cssText = `height:${spacerHeight}px;pointer-events:none;background:transparent;`;
+        const cell = document.createElement("td");
+        cell.colSpan = columns;
+        cell.style.cssText = `height:${spacerHeight}px;padding:0;border:none;background:transparent;`;
+        el.appendChild(cell);
+      } else {
+        el = document.createElement(inline ? "span" : "div");
+        el.className = "page-break-filler block h-full w-full";
+        el.style.cssText = `display:block;width:100%;height:${spacerHeight}px;pointer-events:none;background:transparent;`;
+      }
+      el.setAttribute("data-page-filler", "true");
+      el.setAttribute("data-filler-key", key);
+      el.setAttribute("data-print-break", printBreak ? "true" : "false");
+      if (printInset > 0) {
+        el.setAttribute("data-print-inset", "true");
+        el.style.setProperty("--print-inset", `${printInset}px`);
+      }
+      return el;
+    },
+    { side: -1, key, kind }
+  );
+
+const areDecorationSetsEqual = (a: DecorationSet, b: DecorationSet, docSize: number) => {
+  if (a === b) return true;
+  const aList = a.find(0, docSize);
+  const bList = b.find(0, docSize);
+  if (aList.length !== bList.length) return false;
+  for (let i = 0; i < aList.length; i += 1) {
+    const aDeco = aList[i];
+    const bDeco = bList[i];
+    if (aDeco.from !== bDeco.from || aDeco.to !== bDeco.to) {
+      return false;
+    }
+    const aKey = (aDeco.spec as Record<string, unknown>)?.key;
+    const bKey = (bDeco.spec as Record<string, unknown>)?.key;
+    if (aKey !== bKey) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Decorations map through edits but the page map does not, so compare ranges too.
+const arePageMapsEqual = (a: PageMap, b: PageMap) => {
+  if (a === b) return true;
+  if (a.pages.length !== b.pages.length || a.footnotes.length !== b.footnotes.length) return false;
+  return (
+    a.pages.every(
+      (page, index) =>
+        page.from === b.pages[index].from &&
+        page.to === b.pages[index].to &&
+        page.footnoteHeight === b.pages[index].footnoteHeight
+    ) &&
+    a.footnotes.every(
+      (footnote, index) =>
+        footnote.pos === b.footnotes[index].pos && footnote.pageIndex === b.footnotes[index].pageIndex
+    )
+  );
+};
+
+// The height is part of the key: ProseMirror only redraws a widget whose key changed.
+const fillerKey = (filler: PageFiller) => {
+  const key =
+    filler.kind === "break"
+      ? `page-filler-${filler.pos}-${Math.round(filler.height)}`
+      : `page-filler-${filler.kind}-${filler.pos}-${Math.round(filler.height)}`;
+  return filler.inset ? `${key}-inset-${filler.inset}` : key;
+};
+
+// Stable per-node ids, so a repeated header is redrawn only when its row changes.
+const nodeKeys = new WeakMap<ProseMirrorNode, number>();
+let nextNodeKey = 0;
+const getNodeKey = (node: ProseMirrorNode) => {
+  let key = nodeKeys.get(node);
+  if (key === undefined) {
+    nextNodeKey += 1;
+    key = nextNodeKey;
+    nodeKeys.set(node, key);
+  }
+  return key;
+};
+
+// A copy of a header row drawn at the top of a page the table continues onto.
+// It is not part of the document, so it cannot be edited or selected.
+const createRepeatedHeaderDecoration = (filler: PageFiller, row: ProseMirrorNode, index: number) =>
+  Decoration.widget(
+    filler.pos,
+    (view) => {
+      const el = DOMSerializer.fromSchema(view.state.schema).serializeNode(row) as HTMLElement;
+      el.classList.add("table-repeated-header");
+      el.setAttribute("data-repeated-header", "true");
+      el.setAttribute("contenteditable", "false");
+      return el;
+    },
+    {
+      side: -1,
+      key: `${fillerKey(filler)}-header-${index}-${getNodeKey(row)}`,
+      kind: filler.kind,
+      header: true,
+      ignoreSelection: true
+    }
+  );
+
+const createFillerDecorations = (doc: ProseMirrorNode, filler: PageFiller): Decoration[] => {
+  const { parent } = doc.resolve(filler.pos);
+  const table = parent.type.name === "table" ? parent : null;
+  const columns = table ? getColumnCount(table) : 0;
+  const spacer = createSpacerDecoration(
+    filler.pos,
+    filler.height,
+    table ? `${fillerKey(filler)}-cols-${columns}` : fillerKey(filler),
+    {
+      inline: filler.kind === "split",
+      kind: filler.kind,
+      columns,
+      // Page break nodes carry their own `break-before`, and the tail ends the document.
+      printBreak: filler.kind !== "manual" && filler.kind !== "tail",
+      printInset: filler.inset
+    }
+  );
+  if (!table || !filler.repeatHeader) {
+    return [spacer];
+  }
+  return [spacer, ...getHeaderRows(table).map((row, index) => createRepeatedHeaderDecoration(filler, row, index))];
+};
+
+export type PageFootnote = {
+  pos: number;
+  number: number;
+  note: string;
+};
+
+// Notes by page index, numbered as configured. A page map can trail the
+// document by a pass, so references that no longer resolve are skipped.
+export const groupFootnotesByPage = (doc: ProseMirrorNode, pageMap: PageMap, numbering: FootnoteNumbering) => {
+  const numbers = numberFootnotes(pageMap.footnotes, numbering);
+  const pages = new Map<number, PageFootnote[]>();
+  pageMap.footnotes.forEach((footnote) => {
+    const node = footnote.pos < doc.content.size ? doc.nodeAt(footnote.pos) : null;
+    if (node?.type.name !== "footnote") {
+      return;
+    }
+    const notes = pages.get(footnote.pageIndex) ?? [];
+    notes.push({
+      pos: footnote.pos,
+      number: numbers.get(footnote.pos) ?? notes.length + 1,
+      note: String(node.attrs.note ?? "")
+    });
+    pages.set(footnote.pageIndex, notes);
+  });
+  return pages;
+};
+
+// Print-only copy of a page's notes, just ahead of the filler that ends the
+// page. `gap` is the body space left above the notes; on screen the
+// footnote overlay shows them instead.
+const createFootnotesDecoration = (doc: ProseMirrorNode, filler: PageFiller, notes: PageFootnote[], gap: number) => {
+  const key = `page-footnotes-${filler.pos}-${Math.round(gap)}-${notes
+    .map((note) => `${note.number}:${note.note}`)
+    .join("|")}`;
+  return Decoration.widget(
+    filler.pos,
+    () => {
+      const { parent } = doc.resolve(filler.pos);
+      const tag = filler.kind === "split" ? "span" : "div";
+      const list = document.createElement(tag);
+      list.className = "page-footnotes";
+      list.style.setProperty("--footnote-separator", `${FOOTNOTE_SEPARATOR}px`);
+      notes.forEach((note) => list.appendChild(createFootnoteElement(note.number, note.note, tag)));
+
+      let el = list;
+      if (parent.type.name === "table") {
+        el = document.createElement("tr");
+        const cell = document.createElement("td");
+        cell.colSpan = getColumnCount(parent);
+        cell.appendChild(list);
+        el.appendChild(cell);
+      }
+      el.classList.add("page-footnotes--print");
+      el.style.setProperty("--footnote-gap", `${Math.max(0, gap)}px`);
+      el.setAttribute("contenteditable", "false");
+      return el;
+    },
+    { side: -2, key, footnote: true, ignoreSelection: true }
+  );
+};
+
+// Footnote numbers in the body plus the print copies of every page's notes.
+// Cheap enough to rebuild on every pass, unlike the fillers.
+const buildFootnoteDecorations = (
+  doc: ProseMirrorNode,
+  pageMap: PageMap,
+  numbering: FootnoteNumbering,
+  layout: PageLayout,
+  pageInsets: (pageIndex: number) => PageInsets
+): Decoration[] => {
+  if (!pageMap.footnotes.length) {
+    return [];
+  }
+  const byPage = groupFootnotesByPage(doc, pageMap, numbering);
+  const numbers = Array.from(byPage.values())
+    .flat()
+    .map((note) =>
+      Decoration.node(
+        note.pos,
+        note.pos + 1,
+        { "data-footnote-number": String(note.number) },
+        { key: `footnote-number-${note.pos}-${note.number}`, footnote: true }
+      )
+    );
+  const lists = pageMap.fillers.flatMap((filler) => {
+    const notes = filler.footnotes ? byPage.get(filler.pageIndex) : undefined;
+    if (!filler.footnotes || !notes?.length) {
+      return [];
+    }
+    const carryHeight = filler.kind === "tail" ? 0 : getCarryHeight(layout, filler.pageIndex, pageInsets);
+    const gap = filler.height - filler.footnotes - carryHeight;
+    return [createFootnotesDecoration(doc, filler, notes, gap)];
+  });
+  return [...numbers, ...lists];
+};
+
+const buildFillerDecorations = (doc: ProseMirrorNode, pageMap: PageMap) =>
+  pageMap.fillers.length
+    ? DecorationSet.create(
+       doc,
+       pageMap.fillers.flatMap((filler) => createFillerDecorations(doc, filler))
+     )
+    : DecorationSet.empty;
+
+// Whether a filler at `pos` was produced by the blocks an incremental run
+// reflowed. A manual filler sits after its page break, so one at `from`
+// belongs to the untouched block before and one at `to` to the last reflowed block.
+const isReflowedFiller = (pos: number, kind: PageFillerKind, reflow: PageMap["reflow"]) =>
+  (pos > reflow.from || (pos === reflow.from && kind !== "manual")) &&
+  (reflow.to === null || pos < reflow.to || (pos === reflow.to && kind === "manual"));
+
+// Swaps only the reflowed fillers in the (already mapped) current set. Falls
+// back to a full rebuild if the patched set does not line up with the map.
+const patchFillerDecorations = (current: DecorationSet, doc: ProseMirrorNode, pageMap: PageMap) => {
+  const { reflow } = pageMap;
+  const stale = current
+    .find()
+    .filter((decoration) =>
+      isReflowedFiller(decoration.from, (decoration.spec as { kind: PageFillerKind }).kind, reflow)
+    );
+  const fresh = pageMap.fillers
+    .filter((filler) => isReflowedFiller(filler.pos, filler.kind, reflow))
+    .flatMap((filler) => createFillerDecorations(doc, filler));
+  const patched = current.remove(stale).add(doc, fresh);
+  const spacerCount = patched.find(undefined, undefined, (spec) => !spec.header).length;
+  return spacerCount === pageMap.fillers.length ? patched : buildFillerDecorations(doc, pageMap);
+};
+
+const createFooterReservePlugin = () =>
+  new Plugin({
+    key: footerReservePluginKey,
+    state: {
+      init: (): FooterReserveState => ({
+        decorations: DecorationSet.empty,
+        pageMap: EMPTY_PAGE_MAP,
+        pageSetup: DEFAULT_PAGE_SETUP,
+        layout: DEFAULT_PAGE_LAYOUT,
+        pageInsets: () => NO_PAGE_INSETS
+      }),
+      apply(tr, old): FooterReserveState {
+        const meta = tr.getMeta(footerReservePluginKey) as FooterReserveMeta | undefined;
+        if (meta) {
+          return { ...old, ...meta };
+        }
+        if (tr.docChanged) {
+          return { ...old, decorations: old.decorations.map(tr.mapping, tr.doc) };
+        }
+        return old;
+      }
+    },
+    props: {
+      decorations(state) {
+        return this.getState(state)?.decorations;
+      }
+    },
+    view(editorView) {
+      let frame: number | null = null;
+      // Bumped when web fonts finish loading, which re-wraps text without any edit.
+      let generation = 0;
+      // What the last pass measured, so the next one can start at the first edit.
+      let measured: {
+        doc: ProseMirrorNode;
+        env: string;
+        pageSetup: PageSetup;
+        pageInsets: FooterReserveState["pageInsets"];
+        pageMap: PageMap;
+      } | null = null;
+
+      const run = () => {
+        frame = null;
+        const { state } = editorView;
+        const pluginState = footerReservePluginKey.getState(state);
+        const pageSetup = pluginState?.pageSetup ?? DEFAULT_PAGE_SETUP;
+        const pageInsets = pluginState?.pageInsets ?? (() => NO_PAGE_INSETS);
+        const env = readMeasureEnv(editorView, generation);
+        const { doc } = state;
+
+        let incremental: PaginateIncremental | undefined;
+        if (
+          measured &&
+          measured.env === env &&
+          measured.pageSetup === pageSetup &&
+          measured.pageInsets === pageInsets
+        ) {
+          const from = measured.doc.content.findDiffStart(doc.content);
+          // Nothing moved since the last pass: our own fillers resized the editor.
+          if (from === null) return;
+          const end = measured.doc.content.findDiffEnd(doc.content);
+          incremental = {
+            previous: measured.pageMap,
+            from,
+            to: Math.max(from, end?.b ?? doc.content.size),
+            shift: doc.content.size - measured.doc.content.size
+          };
+        }
+
+        const blocks = collectBlockRects(editorView, env, incremental?.from);
+        const pageMap = paginate(blocks, pageSetup, { docSize: doc.content.size, incremental, pageInsets });
+        measured = { doc, env, pageSetup, pageInsets, pageMap };
+
+        const current = pluginState?.decorations ?? DecorationSet.empty;
+        const fillerDecorations = incremental
+          ? patchFillerDecorations(
+             current.remove(current.find(undefined, undefined, (spec) => spec.footnote)),
+             doc,
+             pageMap
+           )
+          : buildFillerDecorations(doc, pageMap);
+        const decorations = fillerDecorations.add(
+          doc,
+          buildFootnoteDecorations(
+            doc,
+            pageMap,
+            pageSetup.footnoteNumbering,
+            pluginState?.layout ?? DEFAULT_PAGE_LAYOUT,
+            pageInsets
+          )
+        );
+        if (
+          !areDecorationSetsEqual(current, decorations, doc.content.size) ||
+          !arePageMapsEqual(getPageMap(state), pageMap)
+        ) {
+          const meta: FooterReserveMeta = { decorations, pageMap };
+          editorView.dispatch(state.tr.setMeta(footerReservePluginKey, meta));
+        }
+      };
+
+      const schedule = () => {
+        if (frame !== null) return;
+        frame = requestAnimationFrame(run);
+      };
+
+      const handleFontsLoaded = () => {
+        generation += 1;
+        schedule();
+      };
+
+      // An image that finishes loading grows without any edit, the same
+      // way text re-wraps when a font arrives. `load` does not bubble.
+      const handleImageLoaded = (event: Event) => {
+        if (event.target instanceof HTMLImageElement) {
+          handleFontsLoaded();
+        }
+      };
+
+      schedule();
+
+      const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(schedule) : null;
+      if (observer) {
+        observer.observe(editorView.dom);
+      }
+      document.fonts?.addEventListener("loadingdone", handleFontsLoaded);
+      editorView.dom.addEventListener("load", handleImageLoaded, true);
+
+      return {
+        // Selection changes never move content, so only edits and layout changes re-measure.
+        update: (view, prevState) => {
+          const layoutChanged =
+            getPageLayout(view.state) !== getPageLayout(prevState) ||
+            footerReservePluginKey.getState(view.state)?.pageInsets !==
+              footerReservePluginKey.getState(prevState)?.pageInsets;
+          if (!layoutChanged && view.state.doc === prevState.doc) {
+            return;
+          }
+          schedule();
+        },
+        destroy: () => {
+          if (frame !== null) {
+            cancelAnimationFrame(frame);
+          }
+          observer?.disconnect();
+          document.fonts?.removeEventListener("loadingdone", handleFontsLoaded);
+          editorView.dom.removeEventListener("load", handleImageLoaded, true);
+        }
+      };
+    }
+  });
+
+export const FooterReserveExtension = Extension.create({
+  name: "footerReserve",
+  addProseMirrorPlugins() {
+    return [createFooterReservePlugin()];
+  }
+});
@@ -0,0 +1,96 @@
+"use client";
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import type { FootnoteNumbering } from "../pageSetup";
+import type { PlacedFootnote } from "../paginate";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    footnote: {
+      insertFootnote: (note?: string) => ReturnType;
+      updateFootnote: (pos: number, note: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Footnote reference. The note text lives on the reference itself, so moving,
+ * copying or deleting the mark carries its note along. Pagination places the
+ * text at the bottom of the page the reference lands on; the number shown in
+ * the body comes from a `data-footnote-number` decoration, or from a CSS
+ * counter where nothing paginates.
+ */
+export const Footnote = Node.create({
+  name: "footnote",
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      note: {
+        default: "",
+        parseHTML: (element: HTMLElement) => element.getAttribute("data-note") ?? "",
+        renderHTML: (attributes: Record<string, unknown>) => ({
+          "data-note": attributes.note,
+          title: attributes.note
+        })
+      }
+    };
+  },
+
+  parseHTML() {
+    // Ahead of the Superscript mark, which claims every `sup`.
+    return [{ tag: "sup[data-footnote]", priority: 60 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["sup", mergeAttributes(HTMLAttributes, { "data-footnote": "true", class: "footnote-ref" })];
+  },
+
+  renderText() {
+    return "";
+  },
+
+  addCommands() {
+    return {
+      insertFootnote:
+        (note = "") =>
+        ({ chain, state }) => {
+          // Structural pages have no footnote area, so the note would never show.
+          // The node stays in that schema so existing footnotes still load.
+          if (state.doc.firstChild?.type.name === "page") return false;
+          return chain().insertContent({ type: this.name, attrs: { note } }).run();
+        },
+      updateFootnote:
+        (pos, note) =>
+        ({ tr, state, dispatch }) => {
+          const node = state.doc.nodeAt(pos);
+          if (!node || node.type.name !== this.name) return false;
+          if (dispatch) tr.setNodeMarkup(pos, undefined, { ...node.attrs, note });
+          return true;
+        }
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-Alt-f": () => this.editor.commands.insertFootnote()
+    };
+  }
+});
+
+/** Display numbers for placed footnotes, keyed by reference position. */
+export const numberFootnotes = (placed: PlacedFootnote[], numbering: FootnoteNumbering) => {
+  const numbers = new Map<number, number>();
+  let number = 0;
+  let pageIndex = -1;
+  placed.forEach((footnote) => {
+    if (numbering === "page" && footnote.pageIndex !== pageIndex) number = 0;
+    pageIndex = footnote.pageIndex;
+    number += 1;
+    numbers.set(footnote.pos, number);
+  });
+  return numbers;
+};
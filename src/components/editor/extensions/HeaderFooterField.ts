@@ -0,0 +1,63 @@
+"use client";
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import { HEADER_FOOTER_FIELDS, isHeaderFooterField } from "../headerFooter";
+import type { HeaderFooterField as HeaderFooterFieldName } from "../headerFooter";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    headerFooterField: {
+      insertHeaderFooterField: (field: HeaderFooterFieldName) => ReturnType;
+    };
+  }
+}
+
+const getFieldLabel = (field: unknown) =>
+  HEADER_FOOTER_FIELDS.find((option) => option.field === field)?.label ?? String(field);
+
+/**
+ * Field token for the header/footer editor ("Page #", "Client name"…). The
+ * editor shows it as a chip with the field's label; wherever the header or
+ * footer is drawn, `resolveFields` replaces it with the page's value.
+ */
+export const HeaderFooterField = Node.create({
+  name: "headerFooterField",
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      field: {
+        default: "page",
+        parseHTML: (element: HTMLElement) => {
+          const field = element.getAttribute("data-field");
+          return isHeaderFooterField(field) ? field : "page";
+        },
+        renderHTML: (attributes: Record<string, unknown>) => ({ "data-field": attributes.field })
+      }
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "span[data-field]" }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ["span", mergeAttributes(HTMLAttributes, { class: "hf-field" }), getFieldLabel(node.attrs.field)];
+  },
+
+  renderText({ node }) {
+    return `{${getFieldLabel(node.attrs.field)}}`;
+  },
+
+  addCommands() {
+    return {
+      insertHeaderFooterField:
+        (field) =>
+        ({ chain }) =>
+          chain().insertContent({ type: this.name, attrs: { field } }).run()
+    };
+  }
+});
@@ -0,0 +1,121 @@
+"use client";
+
+import { Extension } from "@tiptap/core";
+import type { Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+
+/**
+ * Pagination hints stored on block nodes. `keepWithNext` keeps a block on the
+ * same page as the block that follows it; `keepTogether` stops the block (or
+ * every line of a list) from being split across pages.
+ */
+export type KeepAttribute = "keepWithNext" | "keepTogether";
+
+const KEEP_DATA_ATTRIBUTES: Record<KeepAttribute, string> = {
+  keepWithNext: "data-keep-with-next",
+  keepTogether: "data-keep-together"
+};
+
+const LIST_TYPES = ["bulletList", "orderedList"];
+const KEEP_TYPES = ["paragraph", "heading", "blockquote", "listItem", ...LIST_TYPES];
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    keepBlocks: {
+      toggleKeepWithNext: () => ReturnType;
+      toggleKeepTogether: () => ReturnType;
+    };
+  }
+}
+
+// Headings keep with next unless turned off, so the stored value has to be
+// explicit in both directions to survive an HTML round trip.
+const keepAttribute = (name: KeepAttribute, defaultValue: boolean) => ({
+  default: defaultValue,
+  parseHTML: (element: HTMLElement) => {
+    const value = element.getAttribute(KEEP_DATA_ATTRIBUTES[name]);
+    return value === null ? defaultValue : value !== "false";
+  },
+  renderHTML: (attributes: Record<string, unknown>) => {
+    if (attributes[name]) return { [KEEP_DATA_ATTRIBUTES[name]]: "true" };
+    return defaultValue ? { [KEEP_DATA_ATTRIBUTES[name]]: "false" } : {};
+  }
+});
+
+// The nodes a toggle applies to: the outermost list around the cursor, or the
+// textblock itself when it is not in a list.
+const collectKeepTargets = (state: EditorState) => {
+  const targets = new Map<number, ProseMirrorNode>();
+
+  state.selection.ranges.forEach(({ $from, $to }) => {
+    state.doc.nodesBetween($from.pos, $to.pos, (node, pos) => {
+      if (!node.isTextblock) return true;
+      const $pos = state.doc.resolve(pos);
+      for (let depth = 1; depth <= $pos.depth; depth += 1) {
+        const ancestor = $pos.node(depth);
+        if (LIST_TYPES.includes(ancestor.type.name)) {
+          targets.set($pos.before(depth), ancestor);
+          return false;
+        }
+      }
+      if (KEEP_TYPES.includes(node.type.name)) {
+        targets.set(pos, node);
+      }
+      return false;
+    });
+  });
+
+  return Array.from(targets.entries()).map(([pos, node]) => ({ pos, node }));
+};
+
+export const isKeepActive = (editor: Editor | null, name: KeepAttribute) => {
+  if (!editor) return false;
+  const targets = collectKeepTargets(editor.state);
+  return targets.length > 0 && targets.every(({ node }) => Boolean(node.attrs[name]));
+};
+
+const toggleKeep =
+  (name: KeepAttribute) =>
+  ({ state, tr, dispatch }: { state: EditorState; tr: Transaction; dispatch?: (tr: Transaction) => void }) => {
+    const targets = collectKeepTargets(state);
+    if (!targets.length) return false;
+
+    if (dispatch) {
+      const next = !targets.every(({ node }) => Boolean(node.attrs[name]));
+      targets.forEach(({ pos, node }) => {
+        tr.setNodeMarkup(pos, undefined, { ...node.attrs, [name]: next });
+      });
+    }
+    return true;
+  };
+
+export const KeepBlocksExtension = Extension.create({
+  name: "keepBlocks",
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: ["heading"],
+        attributes: {
+          keepWithNext: keepAttribute("keepWithNext", true),
+          keepTogether: keepAttribute("keepTogether", false)
+        }
+      },
+      {
+        types: KEEP_TYPES.filter((type) => type !== "heading"),
+        attributes: {
+          keepWithNext: keepAttribute("keepWithNext", false),
+          keepTogether: keepAttribute("keepTogether", false)
+        }
+      }
+    ];
+  },
+
+  addCommands() {
+    return {
+      toggleKeepWithNext: () => toggleKeep("keepWithNext"),
+      toggleKeepTogether: () => toggleKeep("keepTogether")
+    };
+  }
+});
@@ -0,0 +1,64 @@
+"use client";
+
+import { Node, mergeAttributes } from "@tiptap/core";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    pageBreak: {
+      setPageBreak: () => ReturnType;
+    };
+  }
+}
+
+/**
+ * Manual page break. The pagination engine starts a new page right after it;
+ * the inline `break-before` style carries the break into print and into any
+ * HTML taken from `editor.getHTML()`.
+ */
+export const PageBreak = Node.create({
+  name: "pageBreak",
+  // Ahead of StarterKit's hard break, which also binds Mod-Enter.
+  priority: 110,
+  group: "block",
+  atom: true,
+  selectable: true,
+  draggable: false,
+
+  parseHTML() {
+    return [{ tag: "div[data-page-break]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes(HTMLAttributes, {
+        "data-page-break": "true",
+        class: "page-break-marker",
+        style: "break-before: page; page-break-before: always;"
+      })
+    ];
+  },
+
+  addCommands() {
+    return {
+      setPageBreak:
+        () =>
+        ({ chain, state }) => {
+          const { $to } = state.selection;
+          // Breaking at the very end of the document still needs somewhere to type.
+          const atDocEnd =
+            $to.depth >= 1 &&
+            $to.after(1) === state.doc.content.size &&
+            $to.parentOffset === $to.parent.content.size;
+          const content = atDocEnd ? [{ type: this.name }, { type: "paragraph" }] : { type: this.name };
+          return chain().insertContent(content).run();
+        }
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-Enter": () => this.editor.commands.setPageBreak()
+    };
+  }
+});
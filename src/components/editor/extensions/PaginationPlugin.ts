@@ -1,146 +1,323 @@
 "use client";
 
 import { Extension } from "@tiptap/core";
+import type { Editor, JSONContent } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
 import { Plugin, PluginKey } from "@tiptap/pm/state";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
 import type { EditorView } from "@tiptap/pm/view";
-
-type Options = {
-  pageContentHeightPx: number;
+import { DEFAULT_PAGE_SETUP } from "../pageSetup";
+import type { PageSetup } from "../pageSetup";
+import { NO_PAGE_INSETS, paginate } from "../paginate";
+import type { MeasuredBlock, PageInsets } from "../paginate";
+
+/**
+ * Structural pagination: the document is `page+` and blocks physically move
+ * between page nodes. Each pass measures every top-level block once, asks the
+ * headless engine where pages should start, and moves the page boundaries in
+ * a single join/split transaction. Join and split steps map positions, so the
+ * caret and the undo history follow a block wherever it lands.
+ */
+
+type PaginationState = {
+  pageSetup: PageSetup;
+  // Room the headers and footers take past the margins on each page.
+  pageInsets: (pageIndex: number) => PageInsets;
 };
 
-export const paginationPluginKey = new PluginKey("page-pagination");
+export type PaginationMeta = Partial<PaginationState>;
 
-function getPageContentHeights(view: EditorView): number[] {
-  const root = view.dom as HTMLElement;
-  if (!root) return [];
-  const containers = Array.from(root.querySelectorAll<HTMLElement>("[data-page-content-container]"));
-  return containers.map((el) => el.scrollHeight);
-}
+export const paginationPluginKey = new PluginKey<PaginationState>("page-pagination");
 
-function getPageStartPos(doc: any, pageIndex: number): number {
-  let pos = 0;
-  for (let i = 0; i < pageIndex; i += 1) pos += doc.child(i).nodeSize;
-  return pos;
+/** Wraps a flat document (blocks at the top level) into a single page. */
+export function toPagedContent(doc: JSONContent): JSONContent {
+  const content = doc.content ?? [];
+  if (content.length && content.every((node) => node.type === "page")) {
+    return doc;
+  }
+  return {
+    ...doc,
+    type: "doc",
+    content: [{ type: "page", content: content.length ? content : [{ type: "paragraph" }] }]
+  };
 }
 
-function childOffsetInside(node: any, childIndex: number): number {
-  let offset = 0;
-  for (let i = 0; i < childIndex; i += 1) offset += node.child(i).nodeSize;
-  return offset;
+/** Unwraps page nodes so the document can be stored or loaded in flow mode. */
+export function toFlatContent(doc: JSONContent): JSONContent {
+  const content = doc.content ?? [];
+  return {
+    ...doc,
+    type: "doc",
+    content: content.flatMap((node) => (node.type === "page" ? node.content ?? [] : [node]))
+  };
 }
 
-export const PaginationExtension = Extension.create<Options>({
-  name: "pagination",
+type PagedBlock = MeasuredBlock & {
+  pageIndex: number;
+  indexInPage: number;
+};
 
-  addOptions() {
-    return {
-      pageContentHeightPx: 11 * 96 - 48 - (1.25 * 96 + 32)
-    };
-  },
+type BlockBox = {
+  top: number;
+  bottom: number;
+  marginTop: number;
+  marginBottom: number;
+};
 
-  addProseMirrorPlugins() {
-    const opts = this.options;
+function measureBlockBox(view: EditorView, pos: number): BlockBox | null {
+  const element = view.nodeDOM(pos);
+  if (!(element instanceof HTMLElement)) return null;
+  const style = window.getComputedStyle(element);
+  const { top, bottom } = element.getBoundingClientRect();
+  return {
+    top,
+    bottom,
+    marginTop: Number.parseFloat(style.marginTop) || 0,
+    marginBottom: Number.parseFloat(style.marginBottom) || 0
+  };
+}
 
-    return [
-      new Plugin({
-        key: paginationPluginKey,
-        appendTransaction: (transactions, _oldState, newState) => {
-          if (!transactions.some((tr) => tr.docChanged)) return null;
-          const pageType = newState.schema.nodes.page;
-          if (!pageType) return null;
-
-          const view = (this as any).editor?.view as EditorView | undefined;
-          if (!view) return null;
-          const root = view.dom as HTMLElement | null;
-          if (!root || !root.querySelector("[data-page-content-container]")) return null;
-
-          const maxHeight = opts.pageContentHeightPx;
-          let tr = newState.tr;
-          let changed = false;
-
-          const maxPasses = 25;
-          for (let pass = 0; pass < maxPasses; pass += 1) {
-            let didMove = false;
-            const doc = tr.doc;
-
-            const heights = getPageContentHeights(view);
-            if (!heights.length) break;
-
-            // Overflow: push last block down.
-            for (let pageIndex = 0; pageIndex < doc.childCount; pageIndex += 1) {
-              const h = heights[pageIndex] ?? 0;
-              if (h <= maxHeight) continue;
-
-              const pageNode = doc.child(pageIndex);
-              if (pageNode.type !== pageType) continue;
-              if (pageNode.childCount <= 1) continue;
-
-              const lastIndex = pageNode.childCount - 1;
-              const lastBlock = pageNode.child(lastIndex);
-
-              if (pageIndex === doc.childCount - 1) {
-                const emptyPage = pageType.createAndFill();
-                if (!emptyPage) break;
-                tr = tr.insert(tr.doc.content.size, emptyPage);
-              }
+// Every block directly inside a page, in document order. Null while any block
+// has not been rendered yet. As in flow mode, each block's height runs from
+// the bottom of the block above to its own bottom, so collapsed margins count
+// once. Neighbours on different pages cannot collapse on screen, so their gap
+// is the larger of the two margins, as it would be on one page.
+function measurePagedBlocks(view: EditorView): PagedBlock[] | null {
+  const { doc } = view.state;
+  const blocks: PagedBlock[] = [];
+  let pagePos = 0;
+  let prev: { box: BlockBox; pageIndex: number } | null = null;
+
+  for (let pageIndex = 0; pageIndex < doc.childCount; pageIndex += 1) {
+    const page = doc.child(pageIndex);
+    let pos = pagePos + 1;
+
+    for (let indexInPage = 0; indexInPage < page.childCount; indexInPage += 1) {
+      const node = page.child(indexInPage);
+      const box = measureBlockBox(view, pos);
+      if (!box) return null;
+      let gap = box.marginTop;
+      if (prev) {
+        gap =
+          prev.pageIndex === pageIndex
+            ? Math.max(0, box.top - prev.box.bottom)
+            : Math.max(prev.box.marginBottom, box.marginTop);
+      }
+      prev = { box, pageIndex };
+      blocks.push({
+        pos,
+        nodeSize: node.nodeSize,
+        height: Math.ceil(gap + box.bottom - box.top),
+        keepWithNext: Boolean(node.attrs.keepWithNext),
+        keepTogether: Boolean(node.attrs.keepTogether),
+        pageBreakAfter: node.type.name === "pageBreak",
+        pageIndex,
+        indexInPage
+      });
+      pos += node.nodeSize;
+    }
+
+    pagePos += page.nodeSize;
+  }
 
-              const pageStartPos = getPageStartPos(doc, pageIndex);
-              const pageInside = pageStartPos + 1;
-              const cutFrom = pageInside + childOffsetInside(pageNode, lastIndex);
-              const cutTo = cutFrom + lastBlock.nodeSize;
+  // The last block also carries the space below it.
+  const last = blocks[blocks.length - 1];
+  if (last && prev) last.height += Math.ceil(prev.box.marginBottom);
 
-              const nextPageStartPos = getPageStartPos(tr.doc, pageIndex + 1);
-              const nextInsertPosBefore = nextPageStartPos + 1;
+  return blocks;
+}
 
-              if (cutFrom < 0 || cutTo > tr.doc.content.size + 2) break;
+// Indices (into `blocks`) of the blocks that open pages 2..n.
+function getCurrentPageStarts(blocks: PagedBlock[]): number[] {
+  return blocks.flatMap((block, index) => (block.pageIndex > 0 && block.indexInPage === 0 ? [index] : []));
+}
 
-              tr = tr.delete(cutFrom, cutTo);
-              const nextInsertPos = tr.mapping.map(nextInsertPosBefore, -1);
-              tr = tr.insert(nextInsertPos, lastBlock);
+function getTargetPageStarts(
+  blocks: PagedBlock[],
+  { pageSetup, pageInsets }: PaginationState,
+  docSize: number
+): number[] {
+  const indexByPos = new Map(blocks.map((block, index) => [block.pos, index]));
+  const { pages } = paginate(blocks, pageSetup, { docSize, pageInsets });
+  return pages.slice(1).flatMap((page) => {
+    const index = indexByPos.get(page.from);
+    return index === undefined || index === 0 ? [] : [index];
+  });
+}
 
-              changed = true;
-              didMove = true;
-              break;
-            }
+// Each page pads its body by its own insets through `--page-inset-*`.
+function buildInsetDecorations(doc: ProseMirrorNode, pageInsets: PaginationState["pageInsets"]): DecorationSet {
+  const decorations: Decoration[] = [];
+  doc.forEach((page, pos, pageIndex) => {
+    const { top, bottom } = pageInsets(pageIndex);
+    if (top > 0 || bottom > 0) {
+      decorations.push(
+        Decoration.node(pos, pos + page.nodeSize, {
+          style: `--page-inset-top: ${top}px; --page-inset-bottom: ${bottom}px`
+        })
+      );
+    }
+  });
+  return decorations.length ? DecorationSet.create(doc, decorations) : DecorationSet.empty;
+}
 
-            if (didMove) continue;
+function startOfPage(doc: ProseMirrorNode, pageIndex: number): number {
+  let pos = 0;
+  for (let i = 0; i < pageIndex; i += 1) pos += doc.child(i).nodeSize;
+  return pos;
+}
 
-            // Underflow: pull first block up.
-            const doc2 = tr.doc;
-            const heights2 = getPageContentHeights(view);
-            for (let pageIndex = 0; pageIndex < doc2.childCount - 1; pageIndex += 1) {
-              const h = heights2[pageIndex] ?? 0;
-              if (h >= maxHeight - 24) continue;
+/**
+ * Rewrites the page boundaries from the first page that differs onward:
+ * the trailing pages are joined into one and split again at the target
+ * block indices. Returns null when the pages already match.
+ */
+function buildRepaginateTransaction(state: EditorState, blocks: PagedBlock[], target: number[]): Transaction | null {
+  const current = getCurrentPageStarts(blocks);
+  let same = 0;
+  while (same < current.length && same < target.length && current[same] === target[same]) same += 1;
+  if (same === current.length && same === target.length) return null;
+
+  const { doc } = state;
+  const tr = state.tr;
+  // Pages 0..same keep their start; join everything after into page `same`.
+  for (let pageIndex = doc.childCount - 1; pageIndex > same; pageIndex -= 1) {
+    tr.join(startOfPage(doc, pageIndex));
+  }
 
-              const pageNode = doc2.child(pageIndex);
-              const nextPageNode = doc2.child(pageIndex + 1);
-              if (pageNode.type !== pageType || nextPageNode.type !== pageType) continue;
-              if (nextPageNode.childCount === 0) continue;
+  // After the joins, the block at index k sits at its original position
+  // minus two tokens for every page boundary removed before it.
+  const joinedBefore = (block: PagedBlock) => Math.max(0, block.pageIndex - same);
+  for (let i = target.length - 1; i >= same; i -= 1) {
+    const block = blocks[target[i]];
+    tr.split(block.pos - 2 * joinedBefore(block), 1);
+  }
 
-              const firstBlock = nextPageNode.child(0);
-              const nextPageStartPos = getPageStartPos(doc2, pageIndex + 1);
-              const nextInside = nextPageStartPos + 1;
-              const nextFrom = nextInside;
-              const nextTo = nextFrom + firstBlock.nodeSize;
+  return tr;
+}
 
-              const pageStartPos = getPageStartPos(doc2, pageIndex);
-              const pageEndInsideBefore = pageStartPos + doc2.child(pageIndex).nodeSize - 1;
+function findPageIndex(doc: ProseMirrorNode, pos: number): number {
+  return doc.resolve(Math.min(pos, doc.content.size)).index(0);
+}
 
-              if (nextFrom < 0 || nextTo > tr.doc.content.size + 2) break;
+// Backspace at the start of a page (or Delete at its end) first merges the two
+// pages, then runs the ordinary join so the blocks actually merge. Without the
+// page join, `isolating` pages would swallow the keystroke.
+function joinAcrossPages(editor: Editor, direction: "backward" | "forward"): boolean {
+  const { selection, doc } = editor.state;
+  if (!selection.empty) return false;
+  const { $from } = selection;
+  if ($from.depth < 2 || $from.node(1).type.name !== "page") return false;
+
+  if (direction === "backward") {
+    if ($from.parentOffset !== 0 || $from.index(0) === 0) return false;
+    for (let depth = $from.depth; depth > 1; depth -= 1) {
+      if ($from.index(depth - 1) !== 0) return false;
+    }
+    const boundary = $from.before(1);
+    return editor
+      .chain()
+      .command(({ tr }) => {
+        tr.join(boundary);
+        return true;
+      })
+      .joinBackward()
+      .run();
+  }
 
-              tr = tr.delete(nextFrom, nextTo);
-              const pageEndInside = tr.mapping.map(pageEndInsideBefore, 1);
-              tr = tr.insert(pageEndInside, firstBlock);
+  if ($from.parentOffset !== $from.parent.content.size || $from.index(0) >= doc.childCount - 1) return false;
+  for (let depth = $from.depth; depth > 1; depth -= 1) {
+    if ($from.index(depth - 1) !== $from.node(depth - 1).childCount - 1) return false;
+  }
+  const boundary = $from.after(1);
+  return editor
+    .chain()
+    .command(({ tr }) => {
+      tr.join(boundary);
+      return true;
+    })
+    .joinForward()
+    .run();
+}
+
+export const PaginationExtension = Extension.create({
+  name: "pagination",
+  // Ahead of the core keymap so page joins run before the default Backspace.
+  priority: 110,
 
-              changed = true;
-              didMove = true;
-              break;
+  addKeyboardShortcuts() {
+    return {
+      Backspace: () => joinAcrossPages(this.editor, "backward"),
+      Delete: () => joinAcrossPages(this.editor, "forward")
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<PaginationState>({
+        key: paginationPluginKey,
+        state: {
+          init: () => ({ pageSetup: DEFAULT_PAGE_SETUP, pageInsets: () => NO_PAGE_INSETS }),
+          apply(tr, old) {
+            const meta = tr.getMeta(paginationPluginKey) as PaginationMeta | undefined;
+            return meta ? { ...old, ...meta } : old;
+          }
+        },
+        props: {
+          decorations(state) {
+            const pageInsets = this.getState(state)?.pageInsets;
+            return pageInsets ? buildInsetDecorations(state.doc, pageInsets) : null;
+          }
+        },
+        view(editorView) {
+          let frame: number | null = null;
+
+          const run = () => {
+            frame = null;
+            if (editorView.composing) {
+              schedule();
+              return;
+            }
+            const { state } = editorView;
+            const blocks = measurePagedBlocks(editorView);
+            if (!blocks) return;
+            const pluginState = paginationPluginKey.getState(state);
+            if (!pluginState) return;
+            const target = getTargetPageStarts(blocks, pluginState, state.doc.content.size);
+            const tr = buildRepaginateTransaction(state, blocks, target);
+            if (!tr) return;
+
+            tr.setMeta("addToHistory", false);
+            const headPage = findPageIndex(state.doc, state.selection.head);
+            if (editorView.hasFocus() && findPageIndex(tr.doc, tr.selection.head) !== headPage) {
+              tr.scrollIntoView();
             }
+            editorView.dispatch(tr);
+          };
 
-            if (!didMove) break;
+          function schedule() {
+            if (frame !== null) return;
+            frame = requestAnimationFrame(run);
           }
 
-          return changed ? tr : null;
+          schedule();
+
+          const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(schedule) : null;
+          observer?.observe(editorView.dom);
+
+          return {
+            update: (view, prevState) => {
+              const setupChanged = paginationPluginKey.getState(view.state) !== paginationPluginKey.getState(prevState);
+              if (setupChanged || view.state.doc !== prevState.doc) {
+                schedule();
+              }
+            },
+            destroy: () => {
+              if (frame !== null) cancelAnimationFrame(frame);
+              observer?.disconnect();
+            }
+          };
         }
       })
     ];
@@ -0,0 +1,204 @@
+"use client";
+
+import Image from "@tiptap/extension-image";
+import type { Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import type { NodeView } from "@tiptap/pm/view";
+
+/**
+ * Block image with a drag handle for its width and an alt text field. Images
+ * are stored as data URLs so drafts stay self-contained. The editor caps
+ * their height at the page body (`--page-content-height`), so a tall scan
+ * shrinks to fit a page instead of straddling two.
+ */
+
+const MIN_IMAGE_WIDTH = 48;
+
+const readWidth = (value: string | null) => {
+  const width = Number.parseFloat(value ?? "");
+  return Number.isFinite(width) && width > 0 ? Math.round(width) : null;
+};
+
+const readImageFile = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const getImageFiles = (files: FileList | null | undefined) =>
+  Array.from(files ?? []).filter((file) => file.type.startsWith("image/"));
+
+// A file that cannot be read is skipped, so one bad file does not drop the rest.
+const readImageFileOrSkip = (file: File) =>
+  readImageFile(file).catch((error: unknown) => {
+    // eslint-disable-next-line no-console
+    console.warn(`Skipped image "${file.name}"`, error);
+    return null;
+  });
+
+/**
+ * Reads `files` and inserts them as images at `pos` (the selection by
+ * default). Never rejects: callers fire it from paste, drop and the picker.
+ */
+export const insertImageFiles = async (editor: Editor, files: File[], pos?: number) => {
+  const sources = await Promise.all(files.map(readImageFileOrSkip));
+  if (editor.isDestroyed) return;
+  const content = sources.flatMap((src, index) =>
+    src === null
+      ? []
+      : [
+          {
+            type: "image",
+            // The file name is a better starting point for alt text than nothing.
+            attrs: { src, alt: files[index].name.replace(/\.[^.]+$/, "") }
+          }
+        ]
+  );
+  if (!content.length) return;
+  editor
+    .chain()
+    .focus()
+    .insertContentAt(pos ?? editor.state.selection.from, content)
+    .run();
+};
+
+const createImageView = (
+  editor: Editor,
+  initialNode: ProseMirrorNode,
+  getPos: () => number | undefined
+): NodeView => {
+  let node = initialNode;
+
+  const dom = document.createElement("figure");
+  dom.className = "editor-image";
+
+  const img = document.createElement("img");
+  img.draggable = false;
+  dom.appendChild(img);
+
+  const handle = document.createElement("span");
+  handle.className = "editor-image__handle";
+  handle.title = "Drag to resize";
+  dom.appendChild(handle);
+
+  const altInput = document.createElement("input");
+  altInput.className = "editor-image__alt";
+  altInput.placeholder = "Alt text";
+  altInput.setAttribute("aria-label", "Image alt text");
+  dom.appendChild(altInput);
+
+  const setAttrs = (attrs: Record<string, unknown>) => {
+    const pos = getPos();
+    if (typeof pos !== "number" || !editor.isEditable) return;
+    editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, ...attrs }));
+  };
+
+  const render = () => {
+    if (img.getAttribute("src") !== node.attrs.src) img.src = node.attrs.src ?? "";
+    img.alt = node.attrs.alt ?? "";
+    if (node.attrs.title) img.title = node.attrs.title;
+    img.style.width = node.attrs.width ? `${node.attrs.width}px` : "";
+    if (document.activeElement !== altInput) altInput.value = node.attrs.alt ?? "";
+  };
+
+  altInput.addEventListener("change", () => setAttrs({ alt: altInput.value.trim() || null }));
+  altInput.addEventListener("keydown", (event) => {
+    if (event.key === "Enter" || event.key === "Escape") {
+      event.preventDefault();
+      altInput.blur();
+      editor.commands.focus();
+    }
+  });
+
+  handle.addEventListener("pointerdown", (event) => {
+    event.preventDefault();
+    const startX = event.clientX;
+    const startWidth = img.getBoundingClientRect().width;
+    const maxWidth = dom.clientWidth || startWidth;
+    let width = startWidth;
+
+    const handleMove = (move: PointerEvent) => {
+      width = Math.min(maxWidth, Math.max(MIN_IMAGE_WIDTH, startWidth + move.clientX - startX));
+      img.style.width = `${width}px`;
+    };
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      setAttrs({ width: Math.round(width) });
+    };
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  });
+
+  render();
+
+  return {
+    dom,
+    update: (updated) => {
+      if (updated.type !== node.type) return false;
+      node = updated;
+      render();
+      return true;
+    },
+    selectNode: () => dom.classList.add("ProseMirror-selectednode"),
+    deselectNode: () => dom.classList.remove("ProseMirror-selectednode"),
+    // The alt field and the handle handle their own input.
+    stopEvent: (event) => event.target === altInput || event.target === handle,
+    ignoreMutation: () => true
+  };
+};
+
+export const ResizableImage = Image.extend({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      inline: false,
+      allowBase64: true
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      width: {
+        default: null,
+        parseHTML: (element: HTMLElement) => readWidth(element.getAttribute("width") ?? element.style.width),
+        renderHTML: (attributes: Record<string, unknown>) =>
+          attributes.width ? { width: attributes.width } : {}
+      }
+    };
+  },
+
+  addNodeView() {
+    return ({ editor, node, getPos }) => createImageView(editor, node, getPos);
+  },
+
+  addProseMirrorPlugins() {
+    const { editor } = this;
+    return [
+      new Plugin({
+        key: new PluginKey("image-files"),
+        props: {
+          handlePaste: (_view, event) => {
+            const files = getImageFiles(event.clipboardData?.files);
+            if (!files.length) return false;
+            event.preventDefault();
+            void insertImageFiles(editor, files);
+            return true;
+          },
+          handleDrop: (view, event) => {
+            const files = getImageFiles(event.dataTransfer?.files);
+            if (!files.length) return false;
+            event.preventDefault();
+            const target = view.posAtCoords({ left: event.clientX, top: event.clientY });
+            void insertImageFiles(editor, files, target?.pos);
+            return true;
+          }
+        }
+      })
+    ];
+  }
+});
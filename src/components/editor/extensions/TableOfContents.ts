@@ -0,0 +1,269 @@
+"use client";
+
+import { Node, mergeAttributes } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import type { EditorState } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import type { NodeView } from "@tiptap/pm/view";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    tableOfContents: {
+      insertTableOfContents: () => ReturnType;
+    };
+  }
+}
+
+/**
+ * Table of contents block. The heading list is stored on the node and kept
+ * in sync after every edit, so the block changes (and is re-measured) exactly
+ * when its height can change. Page numbers depend on pagination rather than
+ * on the document, so they arrive through a node decoration instead, and are
+ * read from the editor's current pagination when the block is serialized.
+ */
+
+export type TocEntry = {
+  level: number;
+  text: string;
+};
+
+export type TableOfContentsOptions = {
+  // Zero-based page index of the block at `pos`, or null while unknown.
+  getPageIndex: (state: EditorState, pos: number) => number | null;
+};
+
+type TableOfContentsState = {
+  pageStartNumber: number;
+};
+
+export type TableOfContentsMeta = Partial<TableOfContentsState>;
+
+export const tableOfContentsPluginKey = new PluginKey<TableOfContentsState>("table-of-contents");
+
+const TOC_TITLE = "Table of Contents";
+
+type HeadingPosition = TocEntry & { pos: number };
+
+// Headings and contents blocks per document, shared by the sync and the numbering.
+const scanCache = new WeakMap<ProseMirrorNode, { headings: HeadingPosition[]; blocks: number[] }>();
+
+const scanDocument = (doc: ProseMirrorNode) => {
+  let scan = scanCache.get(doc);
+  if (!scan) {
+    const headings: HeadingPosition[] = [];
+    const blocks: number[] = [];
+    doc.descendants((node, pos) => {
+      if (node.type.name === "tableOfContents") {
+        blocks.push(pos);
+      } else if (node.type.name === "heading" && node.textContent.trim()) {
+        headings.push({ pos, level: Number(node.attrs.level) || 1, text: node.textContent.trim() });
+      }
+      return !node.isTextblock;
+    });
+    scan = { headings, blocks };
+    scanCache.set(doc, scan);
+  }
+  return scan;
+};
+
+// Displayed page number of every heading, in document order.
+const getHeadingPages = (state: EditorState, getPageIndex: TableOfContentsOptions["getPageIndex"]) => {
+  const start = tableOfContentsPluginKey.getState(state)?.pageStartNumber ?? 1;
+  return scanDocument(state.doc).headings.map(({ pos }) => {
+    const index = getPageIndex(state, pos);
+    return index === null ? null : start + index;
+  });
+};
+
+const formatPage = (page: number | null | undefined) => (page === null || page === undefined ? "" : String(page));
+
+const sameEntries = (a: TocEntry[], b: TocEntry[]) =>
+  a.length === b.length && a.every((entry, index) => entry.level === b[index].level && entry.text === b[index].text);
+
+const readPages = (decorations: readonly Decoration[]) =>
+  (decorations.find((decoration) => decoration.spec.tocPages)?.spec.tocPages ?? []) as Array<number | null>;
+
+const createTocView = (initialNode: ProseMirrorNode, decorations: readonly Decoration[]): NodeView => {
+  let node = initialNode;
+  let pages = readPages(decorations);
+
+  const dom = document.createElement("nav");
+  dom.className = "toc";
+  dom.setAttribute("data-toc", "true");
+  dom.setAttribute("contenteditable", "false");
+
+  const title = document.createElement("p");
+  title.className = "toc__title";
+  title.textContent = TOC_TITLE;
+  dom.appendChild(title);
+
+  const list = document.createElement("ol");
+  list.className = "toc__list";
+  dom.appendChild(list);
+
+  const render = () => {
+    const entries = (node.attrs.entries ?? []) as TocEntry[];
+    list.replaceChildren(
+      ...entries.map((entry, index) => {
+        const item = document.createElement("li");
+        item.className = `toc__entry toc__entry--level-${entry.level}`;
+        const text = document.createElement("span");
+        text.className = "toc__text";
+        text.textContent = entry.text;
+        const leader = document.createElement("span");
+        leader.className = "toc__leader";
+        const page = document.createElement("span");
+        page.className = "toc__page";
+        page.textContent = formatPage(pages[index]);
+        item.append(text, leader, page);
+        return item;
+      })
+    );
+    if (!entries.length) {
+      const empty = document.createElement("li");
+      empty.className = "toc__empty";
+      empty.textContent = "Add headings to fill in the table of contents.";
+      list.appendChild(empty);
+    }
+  };
+
+  render();
+
+  return {
+    dom,
+    update: (updated, updatedDecorations) => {
+      if (updated.type !== node.type) return false;
+      node = updated;
+      pages = readPages(updatedDecorations);
+      render();
+      return true;
+    },
+    ignoreMutation: () => true
+  };
+};
+
+export const TableOfContents = Node.create<TableOfContentsOptions>({
+  name: "tableOfContents",
+  group: "block",
+  atom: true,
+  selectable: true,
+  draggable: true,
+
+  addOptions() {
+    return {
+      getPageIndex: () => null
+    };
+  },
+
+  addAttributes() {
+    return {
+      entries: {
+        default: [],
+        parseHTML: (element: HTMLElement) => {
+          try {
+            const entries = JSON.parse(element.getAttribute("data-entries") ?? "[]");
+            return Array.isArray(entries) ? entries : [];
+          } catch {
+            return [];
+          }
+        },
+        renderHTML: (attributes: Record<string, unknown>) => ({
+          "data-entries": JSON.stringify(attributes.entries ?? [])
+        })
+      }
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "nav[data-toc]" }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const entries = (node.attrs.entries ?? []) as TocEntry[];
+    // Entries mirror the editor's headings, so their pages line up one to one;
+    // a block from elsewhere (or no editor) gets empty page spans to fill later.
+    const state = this.editor?.state;
+    const pages = state ? getHeadingPages(state, this.options.getPageIndex) : [];
+    const aligned = pages.length === entries.length;
+    return [
+      "nav",
+      mergeAttributes(HTMLAttributes, { "data-toc": "true", class: "toc" }),
+      ["p", { class: "toc__title" }, TOC_TITLE],
+      [
+        "ol",
+        { class: "toc__list" },
+        ...entries.map((entry, index) => [
+          "li",
+          { class: `toc__entry toc__entry--level-${entry.level}` },
+          ["span", { class: "toc__text" }, entry.text],
+          ["span", { class: "toc__leader" }],
+          ["span", { class: "toc__page" }, formatPage(aligned ? pages[index] : null)]
+        ])
+      ]
+    ];
+  },
+
+  addNodeView() {
+    return ({ node, decorations }) => createTocView(node, decorations);
+  },
+
+  addCommands() {
+    return {
+      insertTableOfContents:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name })
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { getPageIndex } = this.options;
+
+    return [
+      new Plugin<TableOfContentsState>({
+        key: tableOfContentsPluginKey,
+        state: {
+          init: () => ({ pageStartNumber: 1 }),
+          apply(tr, old) {
+            const meta = tr.getMeta(tableOfContentsPluginKey) as TableOfContentsMeta | undefined;
+            return meta ? { ...old, ...meta } : old;
+          }
+        },
+        appendTransaction: (transactions, _oldState, newState) => {
+          if (!transactions.some((tr) => tr.docChanged)) return null;
+          const { headings, blocks } = scanDocument(newState.doc);
+          const entries: TocEntry[] = headings.map(({ level, text }) => ({ level, text }));
+          const { tr } = newState;
+          blocks.forEach((pos) => {
+            const node = newState.doc.nodeAt(pos);
+            if (node && !sameEntries(node.attrs.entries ?? [], entries)) {
+              tr.setNodeMarkup(pos, undefined, { ...node.attrs, entries });
+            }
+          });
+          return tr.docChanged ? tr : null;
+        },
+        props: {
+          decorations(state) {
+            const { blocks } = scanDocument(state.doc);
+            if (!blocks.length) return DecorationSet.empty;
+            const pages = getHeadingPages(state, getPageIndex);
+            // The numbers also go in an attribute: node decorations compare
+            // by attributes, so that is what makes the view update.
+            return DecorationSet.create(
+              state.doc,
+              blocks.map((pos) =>
+                Decoration.node(
+                  pos,
+                  pos + 1,
+                  { "data-toc-pages": pages.join(",") },
+                  { tocPages: pages }
+                )
+              )
+            );
+          }
+        }
+      })
+    ];
+  }
+});
@@ -0,0 +1,54 @@
+"use client";
+
+import Table from "@tiptap/extension-table";
+import TableCell from "@tiptap/extension-table-cell";
+import TableHeader from "@tiptap/extension-table-header";
+import TableRow from "@tiptap/extension-table-row";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+/**
+ * Table nodes with draggable column widths. Pagination treats every row as
+ * one unbreakable unit; rows made entirely of header cells at the top of a
+ * table are repeated on each page the table continues onto.
+ */
+export const TableExtensions = [
+  Table.configure({
+    resizable: true,
+    lastColumnResizable: false
+  }),
+  TableRow,
+  TableHeader,
+  TableCell
+];
+
+export const DEFAULT_TABLE_SIZE = { rows: 3, cols: 3, withHeaderRow: true };
+
+const isHeaderRow = (row: ProseMirrorNode) =>
+  row.childCount > 0 && Array.from({ length: row.childCount }, (_, index) => row.child(index)).every(
+    (cell) => cell.type.name === "tableHeader"
+  );
+
+/** The leading rows of `table` that consist only of header cells. */
+export const getHeaderRows = (table: ProseMirrorNode): ProseMirrorNode[] => {
+  const rows: ProseMirrorNode[] = [];
+  for (let index = 0; index < table.childCount; index += 1) {
+    const row = table.child(index);
+    if (!isHeaderRow(row)) break;
+    rows.push(row);
+  }
+  // A table that is all header has nothing to repeat them above.
+  return rows.length === table.childCount ? [] : rows;
+};
+
+/** Number of grid columns in `table`, counting column spans. */
+export const getColumnCount = (table: ProseMirrorNode): number => {
+  let columns = 0;
+  table.forEach((row) => {
+    let width = 0;
+    row.forEach((cell) => {
+      width += Number(cell.attrs.colspan) || 1;
+    });
+    columns = Math.max(columns, width);
+  });
+  return Math.max(1, columns);
+};
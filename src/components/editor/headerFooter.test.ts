@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import type { JSONContent } from "@tiptap/core";
+import {
+  DEFAULT_HEADER_FOOTER,
+  EMPTY_HEADER_FOOTER_CONTENT,
+  isLegacyHeaderFooter,
+  normalizeHeaderFooter
+} from "./headerFooter";
+import type { HeaderFooter } from "./headerFooter";
+
+// Stands in for the header/footer editor's HTML parser: one paragraph holding
+// the raw HTML, so each column shows which part of the string it came from.
+const parseHtml = (html: string): JSONContent => ({
+  type: "doc",
+  content: [{ type: "paragraph", content: [{ type: "text", text: html }] }]
+});
+
+const EMPTY_DOC = EMPTY_HEADER_FOOTER_CONTENT.columns[0].content;
+
+describe("header/footer draft migration", () => {
+  it("moves pre-section headerText and footerText into the default section", () => {
+    const migrated = normalizeHeaderFooter(undefined, parseHtml, {
+      headerText: "<p>Smith v. Jones</p>",
+      footerText: "<p>Confidential</p>"
+    });
+
+    expect(isLegacyHeaderFooter(undefined)).toBe(true);
+    expect(migrated.header.default).toEqual({
+      columns: [{ content: parseHtml("<p>Smith v. Jones</p>"), align: "center" }],
+      height: null
+    });
+    expect(migrated.footer.default.columns[0].content).toEqual(parseHtml("<p>Confidential</p>"));
+    expect(migrated.header.first).toEqual(EMPTY_HEADER_FOOTER_CONTENT);
+    expect(migrated.differentFirstPage).toBe(false);
+    expect(migrated.differentOddEven).toBe(false);
+  });
+
+  it("starts from the defaults when a draft has no header or footer at all", () => {
+    expect(normalizeHeaderFooter(undefined, parseHtml, {})).toEqual(DEFAULT_HEADER_FOOTER);
+  });
+
+  it("splits |||-separated strings into three centred columns", () => {
+    const migrated = normalizeHeaderFooter(undefined, parseHtml, { headerText: "<p>Left</p>||| |||<p>Right</p>" });
+
+    expect(migrated.header.default.columns).toEqual([
+      { content: parseHtml("<p>Left</p>"), align: "center" },
+      { content: EMPTY_DOC, align: "center" },
+      { content: parseHtml("<p>Right</p>"), align: "center" }
+    ]);
+  });
+
+  it("migrates intermediate drafts whose sections are plain strings", () => {
+    const raw = {
+      header: { default: "<p>Draft</p>", first: "", even: "<p>A</p>|||<p>B</p>|||<p>C</p>" },
+      footer: { default: "<p>Page</p>", first: "", even: "" },
+      differentFirstPage: true,
+      differentOddEven: true
+    };
+    const migrated = normalizeHeaderFooter(raw, parseHtml);
+
+    expect(isLegacyHeaderFooter(raw)).toBe(true);
+    expect(migrated.header.default.columns).toEqual([{ content: parseHtml("<p>Draft</p>"), align: "center" }]);
+    expect(migrated.header.first).toEqual(EMPTY_HEADER_FOOTER_CONTENT);
+    expect(migrated.header.even.columns.map((column) => column.content)).toEqual([
+      parseHtml("<p>A</p>"),
+      parseHtml("<p>B</p>"),
+      parseHtml("<p>C</p>")
+    ]);
+    expect(migrated.footer.default.columns[0].content).toEqual(parseHtml("<p>Page</p>"));
+    expect(migrated.differentFirstPage).toBe(true);
+    expect(migrated.differentOddEven).toBe(true);
+  });
+
+  it("passes already-migrated JSON through unchanged", () => {
+    const stored: HeaderFooter = {
+      header: {
+        default: {
+          columns: [
+            { content: parseHtml("Left"), align: "left" },
+            { content: EMPTY_DOC, align: "center" },
+            { content: parseHtml("Right"), align: "right" }
+          ],
+          height: 1.25
+        },
+        first: EMPTY_HEADER_FOOTER_CONTENT,
+        even: EMPTY_HEADER_FOOTER_CONTENT
+      },
+      footer: {
+        default: { columns: [{ content: parseHtml("Footer"), align: "right" }], height: null },
+        first: EMPTY_HEADER_FOOTER_CONTENT,
+        even: EMPTY_HEADER_FOOTER_CONTENT
+      },
+      differentFirstPage: true,
+      differentOddEven: false
+    };
+    const parse = vi.fn(parseHtml);
+    // A round trip through storage, as the draft is read back.
+    const raw = JSON.parse(JSON.stringify(stored));
+
+    expect(isLegacyHeaderFooter(raw)).toBe(false);
+    expect(normalizeHeaderFooter(raw, parse)).toEqual(stored);
+    expect(parse).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,316 @@
+import type { JSONContent } from "@tiptap/core";
+import { INCH_IN_PX } from "./pageSetup";
+import type { PageLayout } from "./pageSetup";
+
+export type HeaderFooterRegion = "header" | "footer";
+
+/**
+ * Which header/footer a page shows. `default` covers every page unless one of
+ * the options below claims it; with odd/even turned on it is the odd-page
+ * variant.
+ */
+export type HeaderFooterSection = "default" | "first" | "even";
+
+export type HeaderFooterAlign = "left" | "center" | "right";
+
+export type HeaderFooterColumn = {
+  // A document in the header/footer editor's schema.
+  content: JSONContent;
+  align: HeaderFooterAlign;
+};
+
+/**
+ * One header or footer: a single column, or left, center and right columns.
+ * `height` is the least region height in inches when set; null lets the
+ * content alone decide how far past the page margin the region grows.
+ */
+export type HeaderFooterContent = {
+  columns: HeaderFooterColumn[];
+  height: number | null;
+};
+
+export type HeaderFooterSections = Record<HeaderFooterSection, HeaderFooterContent>;
+
+export type HeaderFooter = {
+  header: HeaderFooterSections;
+  footer: HeaderFooterSections;
+  differentFirstPage: boolean;
+  differentOddEven: boolean;
+};
+
+export type HeaderFooterLayout = 1 | 3;
+
+export const HEADER_FOOTER_SECTIONS: HeaderFooterSection[] = ["default", "first", "even"];
+
+const COLUMN_ALIGNS: Record<HeaderFooterLayout, HeaderFooterAlign[]> = {
+  1: ["center"],
+  3: ["left", "center", "right"]
+};
+
+const EMPTY_DOC: JSONContent = { type: "doc", content: [{ type: "paragraph" }] };
+
+/** A region with one plain paragraph per column, e.g. `["Left", "Center", "Right"]`. */
+export const createHeaderFooterContent = (texts: string[]): HeaderFooterContent => ({
+  columns: COLUMN_ALIGNS[texts.length === 3 ? 3 : 1].map((align, index) => ({
+    content: texts[index]
+      ? { type: "doc", content: [{ type: "paragraph", content: [{ type: "text", text: texts[index] }] }] }
+      : EMPTY_DOC,
+    align
+  })),
+  height: null
+});
+
+export const EMPTY_HEADER_FOOTER_CONTENT = createHeaderFooterContent([]);
+
+const EMPTY_SECTIONS: HeaderFooterSections = {
+  default: EMPTY_HEADER_FOOTER_CONTENT,
+  first: EMPTY_HEADER_FOOTER_CONTENT,
+  even: EMPTY_HEADER_FOOTER_CONTENT
+};
+
+export const DEFAULT_HEADER_FOOTER: HeaderFooter = {
+  header: EMPTY_SECTIONS,
+  footer: EMPTY_SECTIONS,
+  differentFirstPage: false,
+  differentOddEven: false
+};
+
+/** Switches to one or three columns, keeping the content of the columns both have. */
+export const setHeaderFooterLayout = (
+  value: HeaderFooterContent,
+  layout: HeaderFooterLayout
+): HeaderFooterContent => ({
+  ...value,
+  columns: COLUMN_ALIGNS[layout].map((align, index) => ({
+    content: value.columns[index]?.content ?? EMPTY_DOC,
+    align
+  }))
+});
+
+/** Sections that are in use with the current options, in editing order. */
+export const getActiveSections = (settings: HeaderFooter): HeaderFooterSection[] =>
+  HEADER_FOOTER_SECTIONS.filter(
+    (section) =>
+      section === "default" ||
+      (section === "first" && settings.differentFirstPage) ||
+      (section === "even" && settings.differentOddEven)
+  );
+
+/**
+ * Section for the page at `pageIndex`. Odd and even follow the printed page
+ * number, so a document that starts at page 2 opens on an even page.
+ */
+export const getPageSection = (
+  settings: Pick<HeaderFooter, "differentFirstPage" | "differentOddEven">,
+  pageIndex: number,
+  pageStartNumber: number
+): HeaderFooterSection => {
+  if (pageIndex === 0 && settings.differentFirstPage) return "first";
+  if (settings.differentOddEven && (pageStartNumber + pageIndex) % 2 === 0) return "even";
+  return "default";
+};
+
+export const withSectionContent = (
+  settings: HeaderFooter,
+  region: HeaderFooterRegion,
+  section: HeaderFooterSection,
+  content: HeaderFooterContent
+): HeaderFooter => ({ ...settings, [region]: { ...settings[region], [section]: content } });
+
+/**
+ * Values that change per page or per document. The header/footer editor
+ * stores them as `headerFooterField` nodes, serialised as
+ * `<span data-field="…">` tokens that are swapped for their value wherever
+ * the header or footer is drawn.
+ */
+export type HeaderFooterField = "page" | "pages" | "title" | "date" | "client" | "receipt";
+
+export const HEADER_FOOTER_FIELDS: Array<{ field: HeaderFooterField; label: string }> = [
+  { field: "page", label: "Page #" },
+  { field: "pages", label: "Total pages" },
+  { field: "title", label: "Title" },
+  { field: "date", label: "Date" },
+  { field: "client", label: "Client name" },
+  { field: "receipt", label: "Receipt #" }
+];
+
+export type HeaderFooterFieldValues = Record<HeaderFooterField, string>;
+
+/** Per-document values for the fields that do not come from the editor itself. */
+export type DocumentFields = {
+  clientName: string;
+  receiptNumber: string;
+};
+
+export const DEFAULT_DOCUMENT_FIELDS: DocumentFields = { clientName: "", receiptNumber: "" };
+
+export const normalizeDocumentFields = (raw: unknown): DocumentFields => {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Partial<DocumentFields>;
+  return {
+    clientName: typeof source.clientName === "string" ? source.clientName : "",
+    receiptNumber: typeof source.receiptNumber === "string" ? source.receiptNumber : ""
+  };
+};
+
+export const isHeaderFooterField = (value: unknown): value is HeaderFooterField =>
+  HEADER_FOOTER_FIELDS.some(({ field }) => field === value);
+
+// Tokens as the header/footer schema serialises them; their text is only a label.
+const FIELD_PATTERN = /<span\b[^>]*\bdata-field="([a-z]+)"[^>]*>[^<]*<\/span>/g;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Replaces every field token in serialised header/footer `html` with its value. */
+export const resolveFields = (html: string, values: HeaderFooterFieldValues) =>
+  html.replace(FIELD_PATTERN, (match, field: string) => (isHeaderFooterField(field) ? escapeHtml(values[field]) : match));
+
+const hasVisibleContent = (node: JSONContent): boolean =>
+  node.type === "headerFooterField" ||
+  (node.type === "text" && Boolean(node.text?.trim())) ||
+  Boolean(node.content?.some(hasVisibleContent));
+
+export const hasHeaderFooterContent = (value: HeaderFooterContent) =>
+  value.columns.some((column) => hasVisibleContent(column.content));
+
+/** A px height for every region and section, e.g. measured content or drawn regions. */
+export type HeaderFooterHeights = Record<HeaderFooterRegion, Record<HeaderFooterSection, number>>;
+
+export const EMPTY_HEADER_FOOTER_HEIGHTS: HeaderFooterHeights = {
+  header: { default: 0, first: 0, even: 0 },
+  footer: { default: 0, first: 0, even: 0 }
+};
+
+// Space kept between a region's content and the body when it grows.
+const REGION_CONTENT_GAP = 8;
+
+type RegionBounds = {
+  // Page margin on the region's side: the least a region takes.
+  margin: number;
+  // Distance from the sheet edge to the region's content.
+  distance: number;
+  // Most a region may take, whatever its content.
+  maxHeight: number;
+};
+
+const getRegionHeight = (value: HeaderFooterContent, contentHeight: number, bounds: RegionBounds) => {
+  const least = value.height === null ? 0 : Math.round(value.height * INCH_IN_PX);
+  const needed = hasHeaderFooterContent(value) ? bounds.distance + Math.ceil(contentHeight) + REGION_CONTENT_GAP : 0;
+  return Math.max(bounds.margin, Math.min(Math.max(least, needed), bounds.maxHeight));
+};
+
+/**
+ * Drawn height in px of every header and footer, given the measured height of
+ * its content: the page margin, grown to fit the content (or the region's own
+ * `height`) up to the layout's maximum. Content past that is clipped rather
+ * than taking more of the body.
+ */
+export const getRegionHeights = (
+  settings: HeaderFooter,
+  contentHeights: HeaderFooterHeights,
+  layout: PageLayout
+): HeaderFooterHeights => {
+  const bounds: Record<HeaderFooterRegion, RegionBounds> = {
+    header: {
+      margin: layout.marginTop,
+      distance: layout.headerDistance,
+      maxHeight: Math.max(layout.marginTop, layout.headerFooterMaxHeight)
+    },
+    footer: {
+      margin: layout.marginBottom,
+      distance: layout.footerDistance,
+      maxHeight: Math.max(layout.marginBottom, layout.headerFooterMaxHeight)
+    }
+  };
+  const measure = (region: HeaderFooterRegion) =>
+    Object.fromEntries(
+      HEADER_FOOTER_SECTIONS.map((section) => [
+        section,
+        getRegionHeight(settings[region][section], contentHeights[region][section], bounds[region])
+      ])
+    ) as Record<HeaderFooterSection, number>;
+  return { header: measure("header"), footer: measure("footer") };
+};
+
+// Before this model, drafts stored each header/footer as an HTML string with
+// `|||` between the three columns, all of them centred.
+const migrateLegacyText = (text: string, parseHtml: (html: string) => JSONContent): HeaderFooterContent => {
+  const parts = text.split("|||");
+  const layout: HeaderFooterLayout = parts.length > 1 ? 3 : 1;
+  return {
+    columns: COLUMN_ALIGNS[layout].map((_align, index) => {
+      const html = parts[index]?.trim() ?? "";
+      return { content: html ? parseHtml(html) : EMPTY_DOC, align: "center" };
+    }),
+    height: null
+  };
+};
+
+const isAlign = (value: unknown): value is HeaderFooterAlign =>
+  value === "left" || value === "center" || value === "right";
+
+const readContent = (raw: unknown, parseHtml: (html: string) => JSONContent): HeaderFooterContent => {
+  if (typeof raw === "string") return migrateLegacyText(raw, parseHtml);
+  const source = (raw && typeof raw === "object" ? raw : {}) as Partial<HeaderFooterContent>;
+  const columns = Array.isArray(source.columns) ? source.columns : [];
+  return {
+    columns: COLUMN_ALIGNS[columns.length === 3 ? 3 : 1].map((fallback, index) => {
+      const column = (columns[index] ?? {}) as Partial<HeaderFooterColumn>;
+      const content = column.content;
+      return {
+        content: content && typeof content === "object" && content.type === "doc" ? content : EMPTY_DOC,
+        align: isAlign(column.align) ? column.align : fallback
+      };
+    }),
+    height:
+      typeof source.height === "number" && Number.isFinite(source.height) && source.height > 0 ? source.height : null
+  };
+};
+
+const readSections = (raw: unknown, parseHtml: (html: string) => JSONContent): HeaderFooterSections => {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<HeaderFooterSection, unknown>>;
+  return {
+    default: readContent(source.default, parseHtml),
+    first: readContent(source.first, parseHtml),
+    even: readContent(source.even, parseHtml)
+  };
+};
+
+/** True when a stored value predates the JSON model, so loading it migrates it. */
+export const isLegacyHeaderFooter = (raw: unknown) => {
+  if (!raw || typeof raw !== "object") return true;
+  const { header, footer } = raw as Partial<Record<HeaderFooterRegion, unknown>>;
+  return [header, footer].some(
+    (sections) =>
+      Boolean(sections) &&
+      typeof sections === "object" &&
+      Object.values(sections as object).some((value) => typeof value === "string")
+  );
+};
+
+/**
+ * Coerces a stored value into `HeaderFooter`, migrating legacy HTML strings
+ * through `parseHtml` (HTML to a header/footer editor document). Drafts saved
+ * before sections existed only carry `headerText`/`footerText`; those become
+ * the default section.
+ */
+export const normalizeHeaderFooter = (
+  raw: unknown,
+  parseHtml: (html: string) => JSONContent,
+  legacy?: { headerText?: unknown; footerText?: unknown }
+): HeaderFooter => {
+  if (!raw || typeof raw !== "object") {
+    return {
+      ...DEFAULT_HEADER_FOOTER,
+      header: readSections({ default: typeof legacy?.headerText === "string" ? legacy.headerText : "" }, parseHtml),
+      footer: readSections({ default: typeof legacy?.footerText === "string" ? legacy.footerText : "" }, parseHtml)
+    };
+  }
+  const source = raw as Partial<HeaderFooter>;
+  return {
+    header: readSections(source.header, parseHtml),
+    footer: readSections(source.footer, parseHtml),
+    differentFirstPage: source.differentFirstPage === true,
+    differentOddEven: source.differentOddEven === true
+  };
+};
@@ -0,0 +1,56 @@
+import { generateJSON, getSchema } from "@tiptap/core";
+import type { JSONContent } from "@tiptap/core";
+import { DOMSerializer } from "@tiptap/pm/model";
+import type { Schema } from "@tiptap/pm/model";
+import StarterKit from "@tiptap/starter-kit";
+import Underline from "@tiptap/extension-underline";
+import TextStyle from "@tiptap/extension-text-style";
+import TextAlign from "@tiptap/extension-text-align";
+import Color from "@tiptap/extension-color";
+import Highlight from "@tiptap/extension-highlight";
+import Superscript from "@tiptap/extension-superscript";
+import Subscript from "@tiptap/extension-subscript";
+import { HeaderFooterField } from "./extensions/HeaderFooterField";
+
+/**
+ * Schema of a header/footer column document, shared by the modal, the
+ * in-place editor and everything that draws a stored column as HTML.
+ */
+
+export const HEADER_FOOTER_EDITOR_EXTENSIONS = [
+  StarterKit,
+  TextStyle,
+  Color,
+  Highlight,
+  Underline,
+  Superscript,
+  Subscript,
+  TextAlign.configure({ types: ["heading", "paragraph"] }),
+  HeaderFooterField
+];
+
+let headerFooterSchema: Schema | null = null;
+const headerFooterHtmlCache = new WeakMap<JSONContent, string>();
+
+// Serialised once per column document; stored content is never mutated, so
+// the object itself is the cache key.
+export const renderHeaderFooterHtml = (content: JSONContent) => {
+  const cached = headerFooterHtmlCache.get(content);
+  if (cached !== undefined) return cached;
+  if (typeof document === "undefined") return "";
+  headerFooterSchema = headerFooterSchema ?? getSchema(HEADER_FOOTER_EDITOR_EXTENSIONS);
+  let html = "";
+  try {
+    const doc = headerFooterSchema.nodeFromJSON(content);
+    const container = document.createElement("div");
+    container.appendChild(DOMSerializer.fromSchema(headerFooterSchema).serializeFragment(doc.content));
+    html = container.innerHTML;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn("Invalid header/footer content", error);
+  }
+  headerFooterHtmlCache.set(content, html);
+  return html;
+};
+
+export const parseHeaderFooterHtml = (html: string) => generateJSON(html, HEADER_FOOTER_EDITOR_EXTENSIONS);
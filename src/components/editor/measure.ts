@@ -0,0 +1,505 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { EditorView } from "@tiptap/pm/view";
+import type { PageLayout } from "./pageSetup";
+import { getHeaderRows } from "./extensions/Tables";
+import type { MeasuredBlock, MeasuredFootnote, MeasuredLine } from "./paginate";
+
+/**
+ * DOM measurement for flow pagination: reads the rendered document into the
+ * `MeasuredBlock`s that `paginate` consumes. Heights, line boxes and the gaps
+ * between blocks are cached per ProseMirror node, so a pass only touches the
+ * DOM for blocks an edit could have changed.
+ */
+
+export type PageBounds = { from: number; to: number };
+
+const readPx = (value: string) => Number.parseFloat(value) || 0;
+
+type LineBox = { top: number; bottom: number; left: number };
+
+// Groups the client rects of a block's text into visual line boxes, skipping
+// spacer widgets that pagination itself inserted.
+const collectLineBoxes = (element: HTMLElement): LineBox[] => {
+  const rects: DOMRect[] = [];
+  const range = document.createRange();
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  for (let current = walker.nextNode(); current; current = walker.nextNode()) {
+    if (current.parentElement?.closest("[data-page-filler]")) continue;
+    range.selectNodeContents(current);
+    for (const rect of Array.from(range.getClientRects())) {
+      if (rect.height > 0) rects.push(rect);
+    }
+  }
+  range.detach();
+
+  rects.sort((a, b) => a.top - b.top || a.left - b.left);
+  const lines: LineBox[] = [];
+  for (const rect of rects) {
+    const last = lines[lines.length - 1];
+    if (last && rect.top < last.bottom - 2) {
+      last.bottom = Math.max(last.bottom, rect.bottom);
+      last.left = Math.min(last.left, rect.left);
+      continue;
+    }
+    lines.push({ top: rect.top, bottom: rect.bottom, left: rect.left });
+  }
+  return lines;
+};
+
+export type CaretPosition = { pageIndex: number; line: number; column: number };
+
+// Where the caret sits in printed terms: its page (from its position in the
+// page stack, whose top is `pagesTop`), its line counted from the top of that
+// page, and its column within the line. Lines side by side, as in table
+// cells, count once.
+export const measureCaretPosition = (
+  view: EditorView,
+  pagesTop: number,
+  layout: PageLayout,
+  bounds: PageBounds[]
+): CaretPosition | null => {
+  const { state } = view;
+  const { head } = state.selection;
+  let caret: { top: number; bottom: number };
+  try {
+    caret = view.coordsAtPos(head);
+  } catch {
+    return null;
+  }
+  const caretMiddle = (caret.top + caret.bottom) / 2;
+  const lastPage = Math.max(0, bounds.length - 1);
+  const pageIndex = Math.min(lastPage, Math.max(0, Math.floor((caretMiddle - pagesTop) / layout.stride)));
+  const pageTop = pagesTop + pageIndex * layout.stride;
+  const pageBottom = pageTop + layout.pageHeight;
+  const range = bounds[pageIndex] ?? { from: 0, to: state.doc.content.size };
+
+  const boxes: LineBox[] = [];
+  let caretBox: LineBox | null = null;
+  const $head = state.doc.resolve(head);
+  state.doc.nodesBetween(range.from, range.to, (node, pos) => {
+    if (!node.isTextblock) return true;
+    const element = view.nodeDOM(pos);
+    if (!(element instanceof HTMLElement)) return false;
+    const rect = element.getBoundingClientRect();
+    if (rect.bottom <= pageTop || rect.top >= pageBottom) return false;
+    const lines = collectLineBoxes(element);
+    // An empty paragraph is still a line on the page.
+    (lines.length ? lines : [{ top: rect.top, bottom: rect.bottom, left: rect.left }]).forEach((box) => {
+      const middle = (box.top + box.bottom) / 2;
+      if (middle < pageTop || middle >= pageBottom) return;
+      boxes.push(box);
+      if ($head.parent === node && box.top <= caretMiddle && caretMiddle <= box.bottom) caretBox = box;
+    });
+    return false;
+  });
+
+  boxes.sort((a, b) => a.top - b.top);
+  let line = 0;
+  let rowBottom = -Infinity;
+  for (const box of boxes) {
+    if (box.top >= rowBottom - 2) line += 1;
+    rowBottom = box.top >= rowBottom - 2 ? box.bottom : Math.max(rowBottom, box.bottom);
+    if (box.bottom >= caretMiddle && box.top <= caretMiddle) break;
+  }
+
+  // The caret's line starts where a point just inside its left edge lands.
+  let lineStart = $head.parent.isTextblock ? $head.start() : head;
+  const box = caretBox as LineBox | null;
+  if (box && $head.parent.isTextblock) {
+    const hit = view.posAtCoords({ left: box.left + 1, top: (box.top + box.bottom) / 2 });
+    if (hit && hit.pos <= head) lineStart = Math.max(lineStart, hit.pos);
+  }
+
+  return { pageIndex, line: Math.max(1, line), column: head - lineStart + 1 };
+};
+
+// Measures each line of a textblock relative to the block's top border edge,
+// discounting filler widgets already sitting inside the block.
+const measureTextLines = (
+  view: EditorView,
+  element: HTMLElement,
+  pos: number,
+  nodeSize: number,
+  style: CSSStyleDeclaration
+): { lines: MeasuredLine[]; fillerHeight: number } => {
+  const fillerRects = Array.from(element.querySelectorAll<HTMLElement>("[data-page-filler]")).map((el) =>
+    el.getBoundingClientRect()
+  );
+  const fillerHeight = fillerRects.reduce((sum, rect) => sum + rect.height, 0);
+  const shiftAbove = (top: number) =>
+    fillerRects.reduce((sum, rect) => (rect.top < top ? sum + rect.height : sum), 0);
+
+  const boxes = collectLineBoxes(element);
+  if (!boxes.length) {
+    return { lines: [], fillerHeight };
+  }
+
+  const contentTop = readPx(style.borderTopWidth) + readPx(style.paddingTop);
+  const firstTop = boxes[0].top;
+  const minPos = pos + 1;
+  const maxPos = pos + nodeSize - 1;
+
+  const lines: MeasuredLine[] = boxes.map((box, index) => {
+    const offset = contentTop + (box.top - firstTop - shiftAbove(box.top));
+    if (index === 0) {
+      return { offset, pos: minPos };
+    }
+    const hit = view.posAtCoords({ left: box.left + 1, top: box.top + (box.bottom - box.top) / 2 });
+    const linePos = Math.max(minPos, Math.min(maxPos, hit?.pos ?? minPos));
+    return { offset, pos: linePos };
+  });
+
+  // Drop lines whose start could not be resolved past the previous one.
+  return {
+    lines: lines.filter((line, index) => index === 0 || line.pos > lines[index - 1].pos),
+    fillerHeight
+  };
+};
+
+// Keep flags set on a container (a list, a quote) apply to every textblock
+// inside it; `keepTogether` on a container chains its textblocks together.
+const resolveKeepFlags = (doc: ProseMirrorNode, pos: number, node: ProseMirrorNode) => {
+  const $pos = doc.resolve(pos);
+  let keepWithNext = Boolean(node.attrs.keepWithNext);
+  let keepTogether = Boolean(node.attrs.keepTogether);
+  let groupPos: number | null = null;
+
+  for (let depth = 1; depth <= $pos.depth; depth += 1) {
+    const ancestor = $pos.node(depth);
+    keepWithNext = keepWithNext || Boolean(ancestor.attrs.keepWithNext);
+    if (ancestor.attrs.keepTogether) {
+      keepTogether = true;
+      groupPos = groupPos ?? $pos.before(depth);
+    }
+  }
+
+  return { keepWithNext, keepTogether, groupPos };
+};
+
+// Untouched content keeps its node identity across transactions, so block
+// measurements are cached per node and only edited blocks hit the DOM. `env`
+// captures what every height depends on (editor width, font, line height).
+type CachedMeasure = {
+  env: string;
+  width: number;
+  height: number;
+  lines: Array<{ offset: number; delta: number }>;
+};
+
+const measureCache = new WeakMap<ProseMirrorNode, CachedMeasure>();
+
+export const readMeasureEnv = (view: EditorView, generation: number) => {
+  const style = window.getComputedStyle(view.dom);
+  return `${generation}|${view.dom.clientWidth}|${style.fontFamily}|${style.fontSize}|${style.lineHeight}`;
+};
+
+// Border-box height of a leaf block, less any filler inside it.
+const measureBlock = (
+  view: EditorView,
+  node: ProseMirrorNode,
+  pos: number,
+  env: string,
+  trusted: boolean
+): { height: number; lines: MeasuredLine[] } | null => {
+  const cached = measureCache.get(node);
+  const fromCache = (entry: CachedMeasure) => ({
+    height: entry.height,
+    lines: entry.lines.map((line) => ({ offset: line.offset, pos: pos + line.delta }))
+  });
+  if (cached && cached.env === env && trusted) {
+    return fromCache(cached);
+  }
+
+  const element = view.nodeDOM(pos) as HTMLElement | null;
+  if (!element) {
+    return null;
+  }
+  // A block can keep its node while its container changes (wrapped in a
+  // quote, moved into a list), so past the edit the width is checked too.
+  const width = element.clientWidth;
+  if (cached && cached.env === env && cached.width === width) {
+    return fromCache(cached);
+  }
+
+  const rect = element.getBoundingClientRect();
+  let height = rect.height;
+  let lines: MeasuredLine[] = [];
+  if (node.isTextblock) {
+    const measured = measureTextLines(view, element, pos, node.nodeSize, window.getComputedStyle(element));
+    lines = measured.lines;
+    height = Math.max(1, rect.height - measured.fillerHeight);
+  }
+
+  measureCache.set(node, {
+    env,
+    width,
+    height,
+    lines: lines.map((line) => ({ offset: line.offset, delta: line.pos - pos }))
+  });
+  return { height, lines };
+};
+
+// Everything between one leaf block's bottom border and the next one's top:
+// margins (collapsed the way the browser collapses them), container padding
+// and borders, list spacing. Cached per block together with the block above,
+// since either side can change it.
+type CachedGap = {
+  env: string;
+  prev: ProseMirrorNode | null;
+  gap: number;
+};
+
+const gapCache = new WeakMap<ProseMirrorNode, CachedGap>();
+
+export const FOOTNOTE_PLACEHOLDER = "Footnote text";
+
+// One note as it appears at the bottom of a page. The overlay renders the same
+// markup, so what is measured here is what the reader sees.
+export const createFootnoteElement = (number: number, note: string, tag: "div" | "span" = "div") => {
+  const el = document.createElement(tag);
+  el.className = "page-footnote";
+  const marker = document.createElement("sup");
+  marker.className = "page-footnote__number";
+  marker.textContent = String(number);
+  const text = document.createElement("span");
+  text.className = "page-footnote__text";
+  text.setAttribute("data-placeholder", FOOTNOTE_PLACEHOLDER);
+  text.textContent = note;
+  el.append(marker, text);
+  return el;
+};
+
+// Note heights by text, measured off-screen at the body width. Dropped
+// whenever the measuring environment changes.
+let footnoteHeights = { env: "", heights: new Map<string, number>() };
+
+const measureFootnoteHeight = (view: EditorView, note: string, env: string) => {
+  if (footnoteHeights.env !== env) {
+    footnoteHeights = { env, heights: new Map() };
+  }
+  const cached = footnoteHeights.heights.get(note);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const el = createFootnoteElement(99, note);
+  el.style.cssText = `position:absolute;left:0;top:0;visibility:hidden;width:${view.dom.clientWidth}px;`;
+  (view.dom.parentElement ?? view.dom).appendChild(el);
+  const height = el.getBoundingClientRect().height;
+  el.remove();
+  footnoteHeights.heights.set(note, height);
+  return height;
+};
+
+/**
+ * A leaf-level block as pagination sees it: a textblock, an atom (rule,
+ * image, page break) or a table row. `pos`/`nodeSize` is the range the
+ * engine breaks around; `domPos` is where the measured element lives.
+ */
+type FlowUnit = {
+  node: ProseMirrorNode;
+  pos: number;
+  nodeSize: number;
+  domPos: number;
+  keepWithNext: boolean;
+  keepTogether: boolean;
+  pageBreakAfter: boolean;
+  repeatHeader: number;
+  groupPos: number | null;
+};
+
+// Table rows become units of their own, so pages only ever break between
+// rows. The first row's range starts at the table itself (a break there moves
+// the whole table) and the last one's runs to the table's end. Header rows
+// and rows joined by a rowspan stay with the row below them; `repeatHeader`
+// is filled in once the header rows are measured.
+const collectTableUnits = (table: ProseMirrorNode, pos: number): FlowUnit[] => {
+  const headerCount = getHeaderRows(table).length;
+  const tableEnd = pos + table.nodeSize;
+  const units: FlowUnit[] = [];
+  let spanEnd = 0;
+  let rowPos = pos + 1;
+
+  table.forEach((row, _offset, index) => {
+    row.forEach((cell) => {
+      spanEnd = Math.max(spanEnd, index + (Number(cell.attrs.rowspan) || 1) - 1);
+    });
+    const from = index === 0 ? pos : rowPos;
+    const to = index === table.childCount - 1 ? tableEnd : rowPos + row.nodeSize;
+    units.push({
+      node: row,
+      pos: from,
+      nodeSize: to - from,
+      domPos: rowPos,
+      keepWithNext: index < headerCount || spanEnd > index,
+      keepTogether: true,
+      pageBreakAfter: false,
+      repeatHeader: index < headerCount ? -1 : 0,
+      groupPos: null
+    });
+    rowPos += row.nodeSize;
+  });
+
+  return units;
+};
+
+const collectFlowUnits = (doc: ProseMirrorNode): FlowUnit[] => {
+  const units: FlowUnit[] = [];
+
+  doc.descendants((node, pos) => {
+    if (node.type.name === "table") {
+      units.push(...collectTableUnits(node, pos));
+      return false;
+    }
+    if (!node.isTextblock && !(node.isBlock && node.isLeaf)) {
+      return true;
+    }
+
+    const { keepWithNext, keepTogether, groupPos } = resolveKeepFlags(doc, pos, node);
+    units.push({
+      node,
+      pos,
+      nodeSize: node.nodeSize,
+      domPos: pos,
+      keepWithNext,
+      keepTogether,
+      pageBreakAfter: node.type.name === "pageBreak",
+      repeatHeader: 0,
+      groupPos
+    });
+    return false;
+  });
+
+  return units;
+};
+
+// Footnotes referenced in a unit, each tied to the line its reference sits on
+// so the note follows that line when the block splits.
+const collectUnitFootnotes = (
+  view: EditorView,
+  unit: FlowUnit,
+  lines: MeasuredLine[],
+  gap: number,
+  env: string
+): MeasuredFootnote[] => {
+  const footnotes: MeasuredFootnote[] = [];
+  unit.node.descendants((child, offset) => {
+    if (child.type.name !== "footnote") {
+      return true;
+    }
+    const pos = unit.domPos + 1 + offset;
+    const line = lines.reduce<MeasuredLine | null>((found, current) => (current.pos <= pos ? current : found), null);
+    footnotes.push({
+      pos,
+      offset: gap + (line?.offset ?? 0),
+      height: measureFootnoteHeight(view, String(child.attrs.note ?? ""), env)
+    });
+    return false;
+  });
+  return footnotes;
+};
+
+// Blocks that end before `changedFrom` are known to be untouched and are read
+// straight from the cache. Each block's height runs from the bottom of the
+// block above to its own bottom, so the heights add up to the document's real
+// height and every gap is counted exactly once. The last block also carries
+// the space below it.
+export const collectBlockRects = (view: EditorView, env: string, changedFrom = 0): MeasuredBlock[] => {
+  const { doc } = view.state;
+  const units = collectFlowUnits(doc);
+  const blocks: MeasuredBlock[] = [];
+  const groups: Array<number | null> = [];
+
+  // Fillers and repeated table headers between two blocks are ours, not
+  // part of the gap. Read lazily: an edit near the end never needs them.
+  let fillerRects: DOMRect[] | null = null;
+  const fillersBetween = (top: number, bottom: number) => {
+    fillerRects ??= Array.from(
+      view.dom.querySelectorAll<HTMLElement>("[data-page-filler], [data-repeated-header]")
+    ).map((el) => el.getBoundingClientRect());
+    return fillerRects.reduce(
+      (sum, rect) => (rect.top >= top - 1 && rect.bottom <= bottom + 1 ? sum + rect.height : sum),
+      0
+    );
+  };
+  const contentTop = () => {
+    const style = window.getComputedStyle(view.dom);
+    return view.dom.getBoundingClientRect().top + readPx(style.borderTopWidth) + readPx(style.paddingTop);
+  };
+  const elementAt = (unit: FlowUnit) => view.nodeDOM(unit.domPos) as HTMLElement | null;
+
+  const measureGap = (unit: FlowUnit, prev: FlowUnit | null, trusted: boolean) => {
+    const cached = gapCache.get(unit.node);
+    const cacheValid = Boolean(cached && cached.env === env && cached.prev === (prev?.node ?? null));
+    if (cached && cacheValid && trusted) {
+      return cached.gap;
+    }
+    const element = elementAt(unit);
+    const prevElement = prev ? elementAt(prev) : null;
+    if (!element || (prev && !prevElement)) {
+      return cacheValid && cached ? cached.gap : 0;
+    }
+    const top = element.getBoundingClientRect().top;
+    const above = prevElement ? prevElement.getBoundingClientRect().bottom : contentTop();
+    const fillers = fillersBetween(above, top);
+    // A filler stops the margins around it from collapsing, so the gap
+    // last seen without one is the true one.
+    if (fillers > 0 && cached && cacheValid) {
+      return cached.gap;
+    }
+    const gap = Math.max(0, top - above - fillers);
+    gapCache.set(unit.node, { env, prev: prev?.node ?? null, gap });
+    return gap;
+  };
+
+  let headerHeight = 0;
+  let prev: FlowUnit | null = null;
+  for (const unit of units) {
+    const trusted = unit.pos + unit.nodeSize <= changedFrom;
+    const measured = measureBlock(view, unit.node, unit.domPos, env, trusted);
+    if (!measured) {
+      continue;
+    }
+    const gap = measureGap(unit, prev, trusted);
+    prev = unit;
+
+    // Header rows come first in their table; add them up for the rows below.
+    if (unit.pos < unit.domPos) {
+      headerHeight = 0;
+    }
+    if (unit.repeatHeader < 0) {
+      headerHeight += measured.height;
+    }
+    const footnotes = collectUnitFootnotes(view, unit, measured.lines, gap, env);
+    blocks.push({
+      pos: unit.pos,
+      nodeSize: unit.nodeSize,
+      height: gap + measured.height,
+      lines: measured.lines.length
+        ? measured.lines.map((line) => ({ offset: line.offset + gap, pos: line.pos }))
+        : undefined,
+      keepWithNext: unit.keepWithNext,
+      keepTogether: unit.keepTogether,
+      pageBreakAfter: unit.pageBreakAfter,
+      repeatHeader: unit.repeatHeader === 0 && unit.node.type.name === "tableRow" ? headerHeight : 0,
+      footnotes: footnotes.length ? footnotes : undefined
+    });
+    groups.push(unit.groupPos);
+  }
+
+  const last = prev ? elementAt(prev) : null;
+  if (last && blocks.length) {
+    const style = window.getComputedStyle(view.dom);
+    const bottom =
+      view.dom.getBoundingClientRect().bottom - readPx(style.borderBottomWidth) - readPx(style.paddingBottom);
+    const below = last.getBoundingClientRect().bottom;
+    blocks[blocks.length - 1].height += Math.max(0, bottom - below - fillersBetween(below, bottom));
+  }
+
+  groups.forEach((groupPos, index) => {
+    if (groupPos !== null && groups[index + 1] === groupPos) {
+      blocks[index].keepWithNext = true;
+    }
+  });
+
+  return blocks;
+};
@@ -0,0 +1,153 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { TextSelection } from "@tiptap/pm/state";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+
+/**
+ * Document outline: the headings and run-in section titles among the
+ * top-level blocks (the blocks inside each page in structural mode). Every
+ * entry owns a section that runs until the next entry of the same or a
+ * higher level, so moving an entry moves everything filed under it.
+ */
+
+// Run-in titles ("Key Milestones" in bold) rank below every heading level.
+const TITLE_LEVEL = 4;
+const MAX_TITLE_LENGTH = 120;
+
+export type OutlineEntry = {
+  pos: number;
+  // End of the last block in the entry's section.
+  end: number;
+  level: number;
+  text: string;
+  kind: "heading" | "title";
+};
+
+type OutlineBlock = {
+  pos: number;
+  node: ProseMirrorNode;
+};
+
+const collectBlocks = (doc: ProseMirrorNode): OutlineBlock[] => {
+  const blocks: OutlineBlock[] = [];
+  doc.forEach((node, offset) => {
+    if (node.type.name !== "page") {
+      blocks.push({ pos: offset, node });
+      return;
+    }
+    node.forEach((child, childOffset) => blocks.push({ pos: offset + 1 + childOffset, node: child }));
+  });
+  return blocks;
+};
+
+// A short paragraph set entirely in bold.
+const isBoldLine = (node: ProseMirrorNode) => {
+  if (node.type.name !== "paragraph" || !node.childCount) return false;
+  const text = node.textContent.trim();
+  if (!text || text.length > MAX_TITLE_LENGTH) return false;
+  let bold = true;
+  node.forEach((child) => {
+    if (child.isText && child.text?.trim() && !child.marks.some((mark) => mark.type.name === "bold")) bold = false;
+  });
+  return bold;
+};
+
+// Ordinary content under a title: anything with text that is not itself a
+// heading or another bold line.
+const isBodyText = (node: ProseMirrorNode) =>
+  node.type.name !== "heading" && node.type.name !== "endnotes" && !!node.textContent.trim() && !isBoldLine(node);
+
+// A bold line only reads as a section title when body text follows it (blank
+// paragraphs in between are skipped); a bold sentence on its own, or a run of
+// bold lines, is emphasis rather than structure.
+const isRunInTitle = (blocks: OutlineBlock[], index: number) => {
+  if (!isBoldLine(blocks[index].node)) return false;
+  const next = blocks.slice(index + 1).find(({ node }) => node.type.name !== "paragraph" || node.textContent.trim());
+  return !!next && isBodyText(next.node);
+};
+
+const getEntryLevel = (blocks: OutlineBlock[], index: number): number | null => {
+  const { node } = blocks[index];
+  if (node.type.name === "heading" && node.textContent.trim()) return Number(node.attrs.level) || 1;
+  return isRunInTitle(blocks, index) ? TITLE_LEVEL : null;
+};
+
+const outlineCache = new WeakMap<ProseMirrorNode, OutlineEntry[]>();
+
+export const collectOutline = (doc: ProseMirrorNode): OutlineEntry[] => {
+  const cached = outlineCache.get(doc);
+  if (cached) return cached;
+
+  const blocks = collectBlocks(doc);
+  const entries: OutlineEntry[] = [];
+  // Entries whose section is still open, outermost first.
+  const open: OutlineEntry[] = [];
+  let lastEnd = 0;
+
+  const close = (level: number) => {
+    while (open.length && open[open.length - 1].level >= level) {
+      const entry = open.pop();
+      if (entry) entry.end = lastEnd;
+    }
+  };
+
+  blocks.forEach(({ pos, node }, index) => {
+    // The generated notes list is never part of a section.
+    if (node.type.name === "endnotes") {
+      close(0);
+      return;
+    }
+    const level = getEntryLevel(blocks, index);
+    if (level !== null) {
+      close(level);
+      const entry: OutlineEntry = {
+        pos,
+        end: pos + node.nodeSize,
+        level,
+        text: node.textContent.trim(),
+        kind: node.type.name === "heading" ? "heading" : "title"
+      };
+      entries.push(entry);
+      open.push(entry);
+    }
+    lastEnd = pos + node.nodeSize;
+  });
+  close(0);
+
+  outlineCache.set(doc, entries);
+  return entries;
+};
+
+/**
+ * Moves the section of `entry` so it starts at `target`, a block boundary
+ * outside the section. In structural mode the pages between the two are
+ * joined first so the move is a plain cut and paste; pagination splits them
+ * again afterwards. The caret lands at the start of the moved section.
+ * Returns null when the section would not move.
+ */
+export const moveSection = (state: EditorState, entry: OutlineEntry, target: number): Transaction | null => {
+  if (target >= entry.pos && target <= entry.end) return null;
+  const { doc } = state;
+  const tr = state.tr;
+
+  if (doc.firstChild?.type.name === "page") {
+    const pageIndexAt = (pos: number) => doc.resolve(Math.min(pos, doc.content.size)).index(0);
+    const first = Math.min(pageIndexAt(entry.pos), pageIndexAt(target));
+    const last = Math.max(pageIndexAt(entry.end - 1), pageIndexAt(target));
+    let pageStart = 0;
+    const starts = Array.from({ length: last + 1 }, (_, index) => {
+      const start = pageStart;
+      pageStart += doc.child(index).nodeSize;
+      return start;
+    });
+    for (let index = last; index > first; index -= 1) tr.join(starts[index]);
+  }
+
+  const from = tr.mapping.map(entry.pos);
+  const to = tr.mapping.map(entry.end, -1);
+  const section = tr.doc.slice(from, to);
+  tr.delete(from, to);
+  const insertAt = tr.mapping.map(target);
+  tr.insert(insertAt, section.content);
+  tr.setSelection(TextSelection.near(tr.doc.resolve(insertAt + 1)));
+  return tr;
+};
@@ -0,0 +1,328 @@
+export const INCH_IN_PX = 96;
+
+// Visual gap between stacked pages on screen. Not part of the printed sheet.
+export const PAGE_GAP = 56;
+
+// Space a page's footnote area reserves above its first note for the short
+// separator rule.
+export const FOOTNOTE_SEPARATOR = 16;
+
+export type PaperSize = "letter" | "legal" | "a4";
+export type PageOrientation = "portrait" | "landscape";
+
+/**
+ * `standard` locks the sheet to the USCIS filing spec (US Letter portrait with
+ * true 1 in margins); `custom` honours whatever the user entered.
+ */
+export type PageLayoutMode = "standard" | "custom";
+
+export type PageMargins = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+/**
+ * Minimum number of lines of a paragraph left at the bottom of a page
+ * (orphans) and carried to the top of the next one (widows).
+ */
+export type WidowOrphanControl = {
+  enabled: boolean;
+  orphans: number;
+  widows: number;
+};
+
+/** Footnotes count up through the whole document, or start at 1 on every page. */
+export type FootnoteNumbering = "continuous" | "page";
+
+/**
+ * Pleading paper: numbered lines down the left margin of every page, with the
+ * body text snapped to the same grid so each number sits beside a line, and
+ * optionally the double rule that separates the numbers from the text.
+ */
+export type PleadingPaper = {
+  enabled: boolean;
+  lines: number;
+  doubleRule: boolean;
+};
+
+/**
+ * User-facing page configuration. All lengths are in inches so the values
+ * map directly onto the printed sheet and the `@page` rule.
+ */
+export type PageSetup = {
+  layoutMode: PageLayoutMode;
+  paperSize: PaperSize;
+  orientation: PageOrientation;
+  margins: PageMargins;
+  // Distance from the top/bottom sheet edge to the header/footer content.
+  headerDistance: number;
+  footerDistance: number;
+  // Tallest a header or footer may grow to fit its content; the body keeps the rest.
+  headerFooterMaxHeight: number;
+  widowOrphan: WidowOrphanControl;
+  footnoteNumbering: FootnoteNumbering;
+  pleading: PleadingPaper;
+};
+
+/**
+ * Pixel geometry derived from a `PageSetup`. Everything that positions pages,
+ * overlays or page breaks reads from this shape.
+ */
+export type PageLayout = {
+  widthIn: number;
+  heightIn: number;
+  margins: PageMargins;
+  pageWidth: number;
+  pageHeight: number;
+  marginTop: number;
+  marginRight: number;
+  marginBottom: number;
+  marginLeft: number;
+  headerDistance: number;
+  footerDistance: number;
+  headerFooterMaxHeight: number;
+  contentWidth: number;
+  contentHeight: number;
+  gap: number;
+  stride: number;
+};
+
+export const STANDARD_MARGIN_IN = 1;
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  letter: { label: "US Letter (8.5 × 11 in)", width: 8.5, height: 11 },
+  legal: { label: "US Legal (8.5 × 14 in)", width: 8.5, height: 14 },
+  a4: { label: "A4 (8.27 × 11.69 in)", width: 8.27, height: 11.69 }
+};
+
+// Smallest body area we allow, so margins can never swallow the page.
+const MIN_CONTENT_IN = 1;
+
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  layoutMode: "standard",
+  paperSize: "letter",
+  orientation: "portrait",
+  margins: {
+    top: STANDARD_MARGIN_IN,
+    right: STANDARD_MARGIN_IN,
+    bottom: STANDARD_MARGIN_IN,
+    left: STANDARD_MARGIN_IN
+  },
+  headerDistance: 0.5,
+  footerDistance: 0.5,
+  headerFooterMaxHeight: 2,
+  widowOrphan: {
+    enabled: true,
+    orphans: 2,
+    widows: 2
+  },
+  footnoteNumbering: "continuous",
+  pleading: {
+    enabled: false,
+    lines: 28,
+    doubleRule: true
+  }
+};
+
+export const MAX_WIDOW_ORPHAN_LINES = 5;
+
+export const MIN_PLEADING_LINES = 10;
+export const MAX_PLEADING_LINES = 60;
+
+const toPx = (inches: number) => Math.round(inches * INCH_IN_PX);
+
+export const getPaperDimensions = (setup: Pick<PageSetup, "paperSize" | "orientation">) => {
+  const paper = PAPER_SIZES[setup.paperSize] ?? PAPER_SIZES.letter;
+  return setup.orientation === "landscape"
+    ? { width: paper.height, height: paper.width }
+    : { width: paper.width, height: paper.height };
+};
+
+/**
+ * Returns the setup that is actually laid out: in `standard` mode the paper
+ * and margins are forced to the filing spec regardless of stored values.
+ */
+export const getEffectivePageSetup = (setup: PageSetup): PageSetup => {
+  if (setup.layoutMode !== "standard") {
+    return setup;
+  }
+  return {
+    ...setup,
+    paperSize: "letter",
+    orientation: "portrait",
+    margins: {
+      top: STANDARD_MARGIN_IN,
+      right: STANDARD_MARGIN_IN,
+      bottom: STANDARD_MARGIN_IN,
+      left: STANDARD_MARGIN_IN
+    },
+    headerDistance: Math.min(setup.headerDistance, STANDARD_MARGIN_IN),
+    footerDistance: Math.min(setup.footerDistance, STANDARD_MARGIN_IN)
+  };
+};
+
+export const resolvePageLayout = (input: PageSetup): PageLayout => {
+  const setup = getEffectivePageSetup(input);
+  const { width, height } = getPaperDimensions(setup);
+  const { margins } = setup;
+  const pageWidth = toPx(width);
+  const pageHeight = toPx(height);
+  const marginTop = toPx(margins.top);
+  const marginRight = toPx(margins.right);
+  const marginBottom = toPx(margins.bottom);
+  const marginLeft = toPx(margins.left);
+
+  return {
+    widthIn: width,
+    heightIn: height,
+    margins: { ...margins },
+    pageWidth,
+    pageHeight,
+    marginTop,
+    marginRight,
+    marginBottom,
+    marginLeft,
+    headerDistance: toPx(setup.headerDistance),
+    footerDistance: toPx(setup.footerDistance),
+    headerFooterMaxHeight: toPx(setup.headerFooterMaxHeight),
+    contentWidth: pageWidth - marginLeft - marginRight,
+    contentHeight: pageHeight - marginTop - marginBottom,
+    gap: PAGE_GAP,
+    stride: pageHeight + PAGE_GAP
+  };
+};
+
+export const DEFAULT_PAGE_LAYOUT = resolvePageLayout(DEFAULT_PAGE_SETUP);
+
+/**
+ * Height of one pleading line. Whole pixels, because pagination rounds block
+ * heights: a fractional pitch would drift and lose the last line of a page.
+ */
+export const getPleadingPitch = (layout: PageLayout, pleading: PleadingPaper) =>
+  Math.max(1, Math.floor(layout.contentHeight / pleading.lines));
+
+/**
+ * Inclusive range of page indices that per-page overlays render. Only the
+ * overlays are windowed; the editor content and its page fillers are not.
+ */
+export type PageWindow = {
+  first: number;
+  last: number;
+};
+
+// Pages kept rendered above and below the viewport, so fast scrolling does
+// not reveal blank sheets before the next frame catches up.
+export const PAGE_WINDOW_OVERSCAN = 2;
+
+export const ALL_PAGES_WINDOW: PageWindow = { first: 0, last: Number.POSITIVE_INFINITY };
+
+/**
+ * The pages intersecting a viewport `viewportHeight` tall whose top sits
+ * `scrollOffset` px below the first sheet, widened by the overscan.
+ */
+export const resolvePageWindow = (
+  scrollOffset: number,
+  viewportHeight: number,
+  layout: PageLayout,
+  pageCount: number
+): PageWindow => {
+  const lastPage = Math.max(0, pageCount - 1);
+  const first = Math.floor(Math.max(0, scrollOffset) / layout.stride) - PAGE_WINDOW_OVERSCAN;
+  const last = Math.floor(Math.max(0, scrollOffset + viewportHeight) / layout.stride) + PAGE_WINDOW_OVERSCAN;
+  return {
+    first: Math.min(lastPage, Math.max(0, first)),
+    last: Math.min(lastPage, Math.max(0, last))
+  };
+};
+
+/** Page indices in `pageWindow` that also fall within `[from, to)`. */
+export const pageWindowIndices = (pageWindow: PageWindow, from: number, to: number): number[] => {
+  const start = Math.max(from, pageWindow.first);
+  const end = Math.min(to, pageWindow.last + 1);
+  return end > start ? Array.from({ length: end - start }, (_, offset) => start + offset) : [];
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const readInches = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+const readLineCount = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? clamp(Math.round(value), 1, MAX_WIDOW_ORPHAN_LINES)
+    : fallback;
+
+const normalizePleading = (raw: unknown): PleadingPaper => {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Partial<PleadingPaper>;
+  const defaults = DEFAULT_PAGE_SETUP.pleading;
+  return {
+    enabled: typeof source.enabled === "boolean" ? source.enabled : defaults.enabled,
+    lines:
+      typeof source.lines === "number" && Number.isFinite(source.lines)
+        ? clamp(Math.round(source.lines), MIN_PLEADING_LINES, MAX_PLEADING_LINES)
+        : defaults.lines,
+    doubleRule: typeof source.doubleRule === "boolean" ? source.doubleRule : defaults.doubleRule
+  };
+};
+
+const normalizeWidowOrphan = (raw: unknown): WidowOrphanControl => {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Partial<WidowOrphanControl>;
+  const defaults = DEFAULT_PAGE_SETUP.widowOrphan;
+  return {
+    enabled: typeof source.enabled === "boolean" ? source.enabled : defaults.enabled,
+    orphans: readLineCount(source.orphans, defaults.orphans),
+    widows: readLineCount(source.widows, defaults.widows)
+  };
+};
+
+/**
+ * Coerces an untrusted value (e.g. a stored draft) into a valid `PageSetup`,
+ * falling back to defaults and keeping at least one inch of body area.
+ */
+export const normalizePageSetup = (raw: unknown): PageSetup => {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Partial<PageSetup>;
+  const paperSize: PaperSize =
+    typeof source.paperSize === "string" && source.paperSize in PAPER_SIZES
+      ? source.paperSize
+      : DEFAULT_PAGE_SETUP.paperSize;
+  const orientation: PageOrientation = source.orientation === "landscape" ? "landscape" : "portrait";
+  const { width, height } = getPaperDimensions({ paperSize, orientation });
+  const rawMargins = (source.margins ?? {}) as Partial<PageMargins>;
+  const defaults = DEFAULT_PAGE_SETUP.margins;
+
+  const maxVertical = (height - MIN_CONTENT_IN) / 2;
+  const maxHorizontal = (width - MIN_CONTENT_IN) / 2;
+  const margins: PageMargins = {
+    top: clamp(readInches(rawMargins.top, defaults.top), 0, maxVertical),
+    right: clamp(readInches(rawMargins.right, defaults.right), 0, maxHorizontal),
+    bottom: clamp(readInches(rawMargins.bottom, defaults.bottom), 0, maxVertical),
+    left: clamp(readInches(rawMargins.left, defaults.left), 0, maxHorizontal)
+  };
+
+  // Setups saved before layout modes existed carry explicit margins, so keep them as custom.
+  const layoutMode: PageLayoutMode =
+    source.layoutMode === "standard" || source.layoutMode === "custom"
+      ? source.layoutMode
+      : source.margins
+        ? "custom"
+        : DEFAULT_PAGE_SETUP.layoutMode;
+
+  return {
+    layoutMode,
+    paperSize,
+    orientation,
+    margins,
+    headerDistance: clamp(readInches(source.headerDistance, DEFAULT_PAGE_SETUP.headerDistance), 0, margins.top),
+    footerDistance: clamp(readInches(source.footerDistance, DEFAULT_PAGE_SETUP.footerDistance), 0, margins.bottom),
+    headerFooterMaxHeight: clamp(
+      readInches(source.headerFooterMaxHeight, DEFAULT_PAGE_SETUP.headerFooterMaxHeight),
+      0,
+      maxVertical
+    ),
+    widowOrphan: normalizeWidowOrphan(source.widowOrphan),
+    footnoteNumbering: source.footnoteNumbering === "page" ? "page" : "continuous",
+    pleading: normalizePleading(source.pleading)
+  };
+};
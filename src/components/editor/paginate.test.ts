@@ -0,0 +1,294 @@
+import { describe, expect, it } from "vitest";
+import { paginate } from "./paginate";
+import type { MeasuredBlock, PageMap } from "./paginate";
+import { DEFAULT_PAGE_SETUP, FOOTNOTE_SEPARATOR, PAGE_GAP } from "./pageSetup";
+
+// US Letter with 1 in margins: 864 px of body per page, and 96 + 56 + 96 px
+// from the end of one body to the start of the next.
+const BODY = 864;
+const CARRY = 96 + PAGE_GAP + 96;
+const LINE = 24;
+
+type BlockSpec = Omit<MeasuredBlock, "pos" | "nodeSize"> & { nodeSize?: number };
+
+// Lays fixture blocks end to end from position 1, the way the editor numbers them.
+const stack = (specs: BlockSpec[]): MeasuredBlock[] => {
+  let pos = 1;
+  return specs.map(({ nodeSize = 10, ...spec }) => {
+    const block = { ...spec, pos, nodeSize };
+    pos += nodeSize;
+    return block;
+  });
+};
+
+// A paragraph of `count` lines; line N starts at document position `pos + 1 + N`.
+const paragraph = (count: number, extra: Partial<BlockSpec> = {}): BlockSpec => ({
+  height: count * LINE,
+  lines: Array.from({ length: count }, (_, index) => ({ offset: index * LINE, pos: index })),
+  nodeSize: count + 2,
+  ...extra
+});
+
+// Line positions are relative in the specs above; make them absolute.
+const withLinePositions = (blocks: MeasuredBlock[]) =>
+  blocks.map((block) =>
+    block.lines ? { ...block, lines: block.lines.map((line) => ({ ...line, pos: block.pos + 1 + line.pos })) } : block
+  );
+
+const layOut = (specs: BlockSpec[]) => withLinePositions(stack(specs));
+
+// Structural documents: every page node adds an open and a close token around
+// its blocks. Returns the blocks, the index of each page's first block and the
+// document size.
+const layOutPages = (pages: BlockSpec[][]) => {
+  const blocks: MeasuredBlock[] = [];
+  const starts: number[] = [];
+  let pos = 0;
+  pages.forEach((specs) => {
+    starts.push(blocks.length);
+    pos += 1;
+    specs.forEach(({ nodeSize = 10, ...spec }) => {
+      blocks.push({ ...spec, pos, nodeSize });
+      pos += nodeSize;
+    });
+    pos += 1;
+  });
+  return { blocks, starts, docSize: pos };
+};
+
+const pageMapOf = (map: PageMap) => ({
+  pageCount: map.pageCount,
+  pages: map.pages,
+  fillers: map.fillers,
+  splits: map.splits,
+  footnotes: map.footnotes
+});
+
+describe("paginate", () => {
+  it("returns a single empty page for an empty document", () => {
+    const map = paginate([], DEFAULT_PAGE_SETUP);
+    expect(map.pageCount).toBe(1);
+    expect(map.fillers).toEqual([]);
+  });
+
+  it("moves a block that overflows the page to the next one", () => {
+    const blocks = layOut([{ height: 300 }, { height: 300 }, { height: 300 }]);
+    const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+    expect(map.pageCount).toBe(2);
+    expect(map.pages).toEqual([
+      { index: 0, from: 1, to: 21, footnoteHeight: 0 },
+      { index: 1, from: 21, to: 31, footnoteHeight: 0 }
+    ]);
+    expect(map.fillers).toEqual([
+      { kind: "break", index: 0, pos: 21, height: BODY - 600 + CARRY, pageIndex: 0 },
+      { kind: "tail", index: 1, pos: 31, height: BODY - 300, pageIndex: 1 }
+    ]);
+  });
+
+  describe("line splits", () => {
+    it("splits a paragraph at the last line that fits", () => {
+      const blocks = layOut([{ height: BODY - 64 }, paragraph(10)]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+      const [, para] = blocks;
+      const breakLine = para.lines?.[2];
+
+      expect(map.pageCount).toBe(2);
+      expect(map.fillers[0]).toEqual({
+        kind: "split",
+        index: 0,
+        pos: breakLine?.pos,
+        height: 64 - 2 * LINE + CARRY,
+        pageIndex: 0
+      });
+      expect(map.splits).toEqual([{ blockPos: para.pos, pos: breakLine?.pos, pageIndex: 1, offset: 2 * LINE }]);
+      expect(map.pages[1].from).toBe(breakLine?.pos);
+    });
+
+    it("moves the whole paragraph rather than leave an orphan", () => {
+      const blocks = layOut([{ height: BODY - 40 }, paragraph(10)]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+      expect(map.splits).toEqual([]);
+      expect(map.fillers[0]).toMatchObject({ kind: "break", pos: blocks[1].pos, height: 40 + CARRY });
+    });
+
+    it("breaks earlier to carry enough widow lines", () => {
+      const blocks = layOut([{ height: BODY - 80 }, paragraph(4)]);
+      const controlled = paginate(blocks, DEFAULT_PAGE_SETUP);
+      const uncontrolled = paginate(blocks, {
+        ...DEFAULT_PAGE_SETUP,
+        widowOrphan: { ...DEFAULT_PAGE_SETUP.widowOrphan, enabled: false }
+      });
+
+      expect(controlled.splits[0].offset).toBe(2 * LINE);
+      expect(uncontrolled.splits[0].offset).toBe(3 * LINE);
+    });
+
+    it("splits a block taller than a page even if that strands lines", () => {
+      const blocks = layOut([paragraph(40)]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+      expect(map.pageCount).toBe(2);
+      expect(map.splits[0].offset).toBe(BODY);
+    });
+  });
+
+  describe("keep rules", () => {
+    it("keeps a heading with the block that follows it", () => {
+      const blocks = layOut([{ height: BODY - 164 }, { height: 40, keepWithNext: true }, { height: 200 }]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+      expect(map.fillers[0]).toMatchObject({ kind: "break", pos: blocks[1].pos, height: 164 + CARRY });
+      expect(map.pages[1].from).toBe(blocks[1].pos);
+    });
+
+    it("keeps a chain of keep-with-next blocks together", () => {
+      const blocks = layOut([
+        { height: BODY - 100 },
+        { height: 40, keepWithNext: true },
+        { height: 40, keepWithNext: true },
+        { height: 60 }
+      ]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+      expect(map.fillers[0]).toMatchObject({ kind: "break", pos: blocks[1].pos });
+    });
+
+    it("moves a keep-together paragraph instead of splitting it", () => {
+      const blocks = layOut([{ height: BODY - 100 }, paragraph(10, { keepTogether: true })]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+      expect(map.splits).toEqual([]);
+      expect(map.fillers[0]).toMatchObject({ kind: "break", pos: blocks[1].pos, height: 100 + CARRY });
+    });
+
+    it("splits a keep-together block taller than a page", () => {
+      const blocks = layOut([{ height: 100 }, paragraph(40, { keepTogether: true })]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+      expect(map.splits.length).toBeGreaterThan(0);
+    });
+  });
+
+  it("starts a new page after a manual break", () => {
+    const blocks = layOut([{ height: 100, pageBreakAfter: true }, { height: 100 }]);
+    const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+    expect(map.pageCount).toBe(2);
+    expect(map.fillers[0]).toEqual({
+      kind: "manual",
+      index: 0,
+      pos: blocks[1].pos,
+      height: BODY - 100 + CARRY,
+      pageIndex: 0
+    });
+    expect(map.pages[1].from).toBe(blocks[1].pos);
+  });
+
+  it("opens the page after a break at the next block of a paged document", () => {
+    const pageBreak: BlockSpec = { height: 0, nodeSize: 1, pageBreakAfter: true };
+    // Blocks of each layout that paginate says open a page after the first.
+    const targetStarts = ({ blocks, docSize }: ReturnType<typeof layOutPages>) =>
+      paginate(blocks, DEFAULT_PAGE_SETUP, { docSize })
+        .pages.slice(1)
+        .map((page) => blocks.findIndex((block) => block.pos === page.from));
+
+    const joined = layOutPages([[{ height: 100 }, pageBreak, { height: 100 }]]);
+    expect(targetStarts(joined)).toEqual([2]);
+
+    // Once the pages are split there, the same blocks still open them, so the
+    // structural plugin has nothing left to move.
+    const split = layOutPages([[{ height: 100 }, pageBreak], [{ height: 100 }]]);
+    expect(split.blocks[2].pos).toBe(split.blocks[1].pos + 1 + 2);
+    expect(targetStarts(split)).toEqual(split.starts.slice(1));
+  });
+
+  it("repeats table header rows above a row that opens a page", () => {
+    const header = 40;
+    const blocks = layOut([{ height: BODY - 64 }, { height: 100, repeatHeader: header }, { height: 100, repeatHeader: header }]);
+    const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+    expect(map.fillers[0]).toMatchObject({ kind: "break", pos: blocks[1].pos, repeatHeader: header });
+    expect(map.checkpoints[2].pageCapacity).toBe(BODY - header);
+    expect(map.fillers[1]).toMatchObject({ kind: "tail", height: BODY - header - 200 });
+  });
+
+  describe("footnotes", () => {
+    it("reserves the footnote area at the bottom of the page", () => {
+      const note = { pos: 5, offset: 0, height: 50 };
+      const blocks = layOut([{ height: 700, footnotes: [note] }, { height: 120 }]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+      const area = note.height + FOOTNOTE_SEPARATOR;
+
+      expect(map.pages[0].footnoteHeight).toBe(area);
+      expect(map.footnotes).toEqual([{ pos: note.pos, pageIndex: 0 }]);
+      expect(map.fillers[0]).toEqual({
+        kind: "break",
+        index: 0,
+        pos: blocks[1].pos,
+        height: BODY - area - 700 + CARRY + area,
+        pageIndex: 0,
+        footnotes: area
+      });
+    });
+
+    it("moves a note to the next page with the line that references it", () => {
+      const note = { pos: 20, offset: 0, height: 40 };
+      const blocks = layOut([{ height: BODY - 64 }, { height: 50, footnotes: [note] }]);
+      const map = paginate(blocks, DEFAULT_PAGE_SETUP);
+
+      expect(map.footnotes).toEqual([{ pos: note.pos, pageIndex: 1 }]);
+      expect(map.pages[0].footnoteHeight).toBe(0);
+      expect(map.pages[1].footnoteHeight).toBe(note.height + FOOTNOTE_SEPARATOR);
+    });
+  });
+
+  describe("incremental runs", () => {
+    const specs: BlockSpec[] = Array.from({ length: 24 }, () => ({ height: 100 }));
+
+    it("resumes before the edit and reuses the unchanged tail", () => {
+      const before = layOut(specs);
+      const previous = paginate(before, DEFAULT_PAGE_SETUP);
+
+      const edited = layOut(specs.map((spec, index) => (index === 2 ? { ...spec, height: 150 } : spec)));
+      const full = paginate(edited, DEFAULT_PAGE_SETUP);
+      const map = paginate(edited, DEFAULT_PAGE_SETUP, {
+        incremental: { previous, from: edited[2].pos, to: edited[2].pos + edited[2].nodeSize, shift: 0 }
+      });
+
+      expect(pageMapOf(map)).toEqual(pageMapOf(full));
+      expect(map.checkpoints).toEqual(full.checkpoints);
+      // Resumes one block before the edit and stops once page 2 is back in step.
+      expect(map.reflow.from).toBe(edited[1].pos);
+      expect(map.reflow.to).toBe(edited[9].pos);
+    });
+
+    it("moves the reused tail by the size of the edit", () => {
+      const before = layOut(specs);
+      const previous = paginate(before, DEFAULT_PAGE_SETUP);
+
+      const edited = layOut(specs.map((spec, index) => (index === 2 ? { ...spec, nodeSize: 15 } : spec)));
+      const full = paginate(edited, DEFAULT_PAGE_SETUP);
+      const map = paginate(edited, DEFAULT_PAGE_SETUP, {
+        incremental: { previous, from: edited[2].pos, to: edited[2].pos + edited[2].nodeSize, shift: 5 }
+      });
+
+      expect(pageMapOf(map)).toEqual(pageMapOf(full));
+      expect(map.reflow.to).not.toBeNull();
+    });
+
+    it("runs to the end when the edit changes every later page", () => {
+      const before = layOut(specs);
+      const previous = paginate(before, DEFAULT_PAGE_SETUP);
+
+      const edited = layOut(specs.map((spec, index) => (index === 2 ? { ...spec, height: 400 } : spec)));
+      const full = paginate(edited, DEFAULT_PAGE_SETUP);
+      const map = paginate(edited, DEFAULT_PAGE_SETUP, {
+        incremental: { previous, from: edited[2].pos, to: edited[2].pos + edited[2].nodeSize, shift: 0 }
+      });
+
+      expect(pageMapOf(map)).toEqual(pageMapOf(full));
+    });
+  });
+});
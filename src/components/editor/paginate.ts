@@ -0,0 +1,517 @@
+import { FOOTNOTE_SEPARATOR, resolvePageLayout } from "./pageSetup";
+import type { PageLayout, PageSetup } from "./pageSetup";
+
+/**
+ * Pure page-break computation. Callers measure block heights however they
+ * like (live DOM, fixtures, a worker) and get back a page map that can be
+ * turned into decorations, print breaks or exported page ranges.
+ */
+
+/**
+ * A line box inside a textblock. `offset` is the distance from the top of the
+ * block (margin included) to the top of the line; `pos` is the document
+ * position of the line's first character, where a page break can be inserted.
+ */
+export type MeasuredLine = {
+  offset: number;
+  pos: number;
+};
+
+/**
+ * A footnote referenced inside a block. `offset` is the block offset of the
+ * line holding the reference, so the note follows that line across a split;
+ * `height` is the rendered height of the note text.
+ */
+export type MeasuredFootnote = {
+  pos: number;
+  offset: number;
+  height: number;
+};
+
+export type MeasuredBlock = {
+  pos: number;
+  nodeSize: number;
+  height: number;
+  // Line boxes in visual order. Blocks without lines only break before themselves.
+  lines?: MeasuredLine[];
+  // Start the following block on the same page as this one ends.
+  keepWithNext?: boolean;
+  // Never split this block across pages unless it is taller than a page.
+  keepTogether?: boolean;
+  // Manual page break: whatever follows starts on a new page.
+  pageBreakAfter?: boolean;
+  // Table rows: height of the header rows repeated above this row when it
+  // opens a page.
+  repeatHeader?: number;
+  footnotes?: MeasuredFootnote[];
+};
+
+export type PageRange = {
+  index: number;
+  // Document position of the first block that starts (or continues) on the page.
+  from: number;
+  // End position of the last block that touches the page.
+  to: number;
+  // Height of the footnote area at the bottom of the body, separator included.
+  footnoteHeight: number;
+};
+
+/** The page a footnote's note text is printed on. */
+export type PlacedFootnote = {
+  pos: number;
+  pageIndex: number;
+};
+
+export type PageFillerKind = "break" | "split" | "carry" | "manual" | "tail";
+
+/**
+ * Blank space inserted before `pos` so the following content starts on the
+ * next page. `break` and `carry` fillers end a page before a block, `split`
+ * ends it between two lines of the same block, `manual` follows a page break
+ * node, and `tail` pads the last page. `repeatHeader` is set when the new
+ * page opens inside a table and its header rows are drawn again after it.
+ * `footnotes` is the height of the footnote area on the page the filler ends,
+ * which the filler's height already includes. `inset` is the top inset of the
+ * page the filler opens, which print adds back after the page break.
+ */
+export type PageFiller = {
+  kind: PageFillerKind;
+  index: number;
+  pos: number;
+  height: number;
+  pageIndex: number;
+  repeatHeader?: number;
+  footnotes?: number;
+  inset?: number;
+};
+
+/**
+ * A block that continues onto `pageIndex`. `pos` is the first position on the
+ * new page and `offset` how far into the block's height the break falls.
+ */
+export type BlockSplit = {
+  blockPos: number;
+  pos: number;
+  pageIndex: number;
+  offset: number;
+};
+
+/**
+ * Engine state just before a block is placed. Lets a later run resume at an
+ * unchanged block, or stop once it reaches a block in the same state as before.
+ */
+export type PaginateCheckpoint = {
+  pos: number;
+  height: number;
+  remainingOnPage: number;
+  // Body height of the current page, less any repeated table header.
+  pageCapacity: number;
+  // Footnote area already reserved on the current page.
+  pageFootnotes: number;
+  pageCount: number;
+  pageTo: number;
+  fillerCount: number;
+  splitCount: number;
+  footnoteCount: number;
+};
+
+export type PageMap = {
+  pageCount: number;
+  pages: PageRange[];
+  fillers: PageFiller[];
+  splits: BlockSplit[];
+  footnotes: PlacedFootnote[];
+  checkpoints: PaginateCheckpoint[];
+  // Positions whose fillers were recomputed by this run; `to` is null when
+  // the run went through to the end of the document.
+  reflow: { from: number; to: number | null };
+};
+
+/**
+ * Describes an edit since `previous` was computed: everything before `from`
+ * is unchanged, and the content from `to` onward is the old content moved by
+ * `shift` positions.
+ */
+export type PaginateIncremental = {
+  previous: PageMap;
+  from: number;
+  to: number;
+  shift: number;
+};
+
+/**
+ * Space a page's header and footer take beyond its top and bottom margins,
+ * when they have grown to fit their content.
+ */
+export type PageInsets = {
+  top: number;
+  bottom: number;
+};
+
+export const NO_PAGE_INSETS: PageInsets = { top: 0, bottom: 0 };
+
+export type PaginateOptions = {
+  // Size of the document content; tail fillers are placed here.
+  docSize?: number;
+  incremental?: PaginateIncremental;
+  // Per-page insets; every page has the plain margins when omitted.
+  pageInsets?: (pageIndex: number) => PageInsets;
+};
+
+/**
+ * Space between the end of the body on page `pageIndex` and the start of the
+ * body on the next page: both margins and insets, plus the gap between sheets.
+ */
+export const getCarryHeight = (
+  layout: PageLayout,
+  pageIndex: number,
+  pageInsets: (pageIndex: number) => PageInsets = () => NO_PAGE_INSETS
+) =>
+  layout.marginBottom + pageInsets(pageIndex).bottom + layout.gap + layout.marginTop + pageInsets(pageIndex + 1).top;
+
+export const EMPTY_PAGE_MAP: PageMap = {
+  pageCount: 1,
+  pages: [],
+  fillers: [],
+  splits: [],
+  footnotes: [],
+  checkpoints: [],
+  reflow: { from: 0, to: null }
+};
+
+// First block the edit can affect: the one before the change (its lines may
+// re-wrap) and any keep-with-next chain leading into it.
+const findResumeIndex = (blocks: MeasuredBlock[], from: number) => {
+  let index = blocks.findIndex((block) => block.pos + block.nodeSize > from);
+  if (index < 0) index = blocks.length;
+  index = Math.max(0, index - 1);
+  while (index > 0 && blocks[index - 1].keepWithNext) index -= 1;
+  return index;
+};
+
+export const paginate = (
+  blocks: MeasuredBlock[],
+  pageSetup: PageSetup,
+  options: PaginateOptions = {}
+): PageMap => {
+  if (!blocks.length) {
+    return EMPTY_PAGE_MAP;
+  }
+
+  const layout = resolvePageLayout(pageSetup);
+  const lastBlock = blocks[blocks.length - 1];
+  const docSize = options.docSize ?? lastBlock.pos + lastBlock.nodeSize;
+  const pageInsets = options.pageInsets ?? (() => NO_PAGE_INSETS);
+  // Body height of the page at `index`, less whatever its header and footer took.
+  const bodyHeight = (index: number) => {
+    const insets = pageInsets(index);
+    return Math.max(1, layout.contentHeight - insets.top - insets.bottom);
+  };
+
+  let pages: PageRange[] = [];
+  let fillers: PageFiller[] = [];
+  let splits: BlockSplit[] = [];
+  let footnotes: PlacedFootnote[] = [];
+  let checkpoints: PaginateCheckpoint[] = [];
+  let remainingOnPage = bodyHeight(0);
+  let pageCapacity = bodyHeight(0);
+  let pageFootnotes = 0;
+  let startIndex = 0;
+
+  const { incremental } = options;
+  if (incremental) {
+    const { previous } = incremental;
+    const index = findResumeIndex(blocks, incremental.from);
+    const checkpoint = previous.checkpoints[index];
+    if (index > 0 && checkpoint && checkpoint.pos === blocks[index].pos && checkpoint.pos < incremental.from) {
+      pages = previous.pages.slice(0, checkpoint.pageCount).map((page) => ({ ...page }));
+      pages[pages.length - 1].to = checkpoint.pageTo;
+      fillers = previous.fillers.slice(0, checkpoint.fillerCount);
+      splits = previous.splits.slice(0, checkpoint.splitCount);
+      footnotes = previous.footnotes.slice(0, checkpoint.footnoteCount);
+      checkpoints = previous.checkpoints.slice(0, index);
+      remainingOnPage = checkpoint.remainingOnPage;
+      pageCapacity = checkpoint.pageCapacity;
+      pageFootnotes = checkpoint.pageFootnotes;
+      pages[pages.length - 1].footnoteHeight = pageFootnotes;
+      startIndex = index;
+    }
+  }
+
+  // Old checkpoints of the unchanged tail, keyed by their position in the new document.
+  const tailCheckpoints = new Map<number, number>();
+  if (incremental) {
+    incremental.previous.checkpoints.forEach((checkpoint, index) => {
+      const pos = checkpoint.pos + incremental.shift;
+      if (pos >= incremental.to) tailCheckpoints.set(pos, index);
+    });
+  }
+
+  // Copies the previous run from old checkpoint `index` onward, moved by `shift`.
+  const reuseTail = (index: number, shift: number) => {
+    const { previous } = incremental as PaginateIncremental;
+    const checkpoint = previous.checkpoints[index];
+    const fillerDelta = fillers.length - checkpoint.fillerCount;
+    const splitDelta = splits.length - checkpoint.splitCount;
+    const footnoteDelta = footnotes.length - checkpoint.footnoteCount;
+    const current = previous.pages[checkpoint.pageCount - 1];
+    if (current.to > checkpoint.pageTo) {
+      pages[pages.length - 1].to = current.to + shift;
+    }
+    pages[pages.length - 1].footnoteHeight = current.footnoteHeight;
+    previous.pages.slice(checkpoint.pageCount).forEach((page) => {
+      pages.push({ ...page, from: page.from + shift, to: page.to + shift });
+    });
+    previous.fillers.slice(checkpoint.fillerCount).forEach((filler) => {
+      fillers.push({ ...filler, index: fillers.length, pos: filler.pos + shift });
+    });
+    previous.splits.slice(checkpoint.splitCount).forEach((split) => {
+      splits.push({ ...split, blockPos: split.blockPos + shift, pos: split.pos + shift });
+    });
+    previous.footnotes.slice(checkpoint.footnoteCount).forEach((footnote) => {
+      footnotes.push({ ...footnote, pos: footnote.pos + shift });
+    });
+    previous.checkpoints.slice(index + 1).forEach((old) => {
+      checkpoints.push({
+        ...old,
+        pos: old.pos + shift,
+        pageTo: old.pageTo + shift,
+        fillerCount: old.fillerCount + fillerDelta,
+        splitCount: old.splitCount + splitDelta,
+        footnoteCount: old.footnoteCount + footnoteDelta
+      });
+    });
+  };
+
+  const openPage = (from: number, repeatHeader = 0) => {
+    pageCapacity = bodyHeight(pages.length) - repeatHeader;
+    pages.push({ index: pages.length, from, to: from, footnoteHeight: 0 });
+    remainingOnPage = pageCapacity;
+    pageFootnotes = 0;
+  };
+
+  // Space from the end of the current page's body to the next page's body.
+  const carryHeight = () => getCarryHeight(layout, pages.length - 1, pageInsets);
+
+  // `height` covers the space left for body text; the footnote area below it
+  // is added here, so the next page still starts at its top margin.
+  const pushFiller = (kind: PageFillerKind, pos: number, height: number, repeatHeader = 0) => {
+    const filler: PageFiller = {
+      kind,
+      index: fillers.length,
+      pos,
+      height: height + pageFootnotes,
+      pageIndex: pages.length - 1
+    };
+    if (repeatHeader > 0) filler.repeatHeader = repeatHeader;
+    if (pageFootnotes > 0) filler.footnotes = pageFootnotes;
+    const inset = kind === "tail" ? 0 : pageInsets(pages.length).top;
+    if (inset > 0) filler.inset = inset;
+    fillers.push(filler);
+  };
+
+  // Space the notes referenced between block offsets `from` and `to` take on
+  // the current page, including the separator if they are its first notes.
+  const footnotesHeight = (notes: MeasuredFootnote[], from: number, to: number) => {
+    const height = notes.reduce(
+      (sum, note) => (note.offset >= from && note.offset < to ? sum + Math.round(note.height) : sum),
+      0
+    );
+    return height > 0 && pageFootnotes === 0 ? height + FOOTNOTE_SEPARATOR : height;
+  };
+
+  // Puts the notes referenced between `from` and `to` on the current page.
+  const placeFootnotes = (notes: MeasuredFootnote[], from: number, to: number) => {
+    const height = footnotesHeight(notes, from, to);
+    if (!height) return;
+    notes.forEach((note) => {
+      if (note.offset >= from && note.offset < to) {
+        footnotes.push({ pos: note.pos, pageIndex: pages.length - 1 });
+      }
+    });
+    pageFootnotes += height;
+    remainingOnPage -= height;
+    pages[pages.length - 1].footnoteHeight = pageFootnotes;
+  };
+
+  // Ends the page before `block`. A table row that opens the next page sits
+  // below its table's repeated header rows, unless they would fill the page.
+  const breakBefore = (kind: PageFillerKind, block: MeasuredBlock, pos: number, height: number) => {
+    const header = Math.max(0, Math.round(block.repeatHeader ?? 0));
+    const repeatHeader = header < bodyHeight(pages.length) ? header : 0;
+    pushFiller(kind, pos, height, repeatHeader);
+    openPage(pos, repeatHeader);
+  };
+
+  const { widowOrphan } = pageSetup;
+  const minOrphans = widowOrphan.enabled ? widowOrphan.orphans : 1;
+  const minWidows = widowOrphan.enabled ? widowOrphan.widows : 1;
+
+  // Index of the line that should open the next page: the last one whose top
+  // still fits `available` px below `consumed`, keeping at least `orphans`
+  // lines behind and `widows` lines ahead of the break. -1 if none qualifies.
+  const findBreakLine = (
+    lines: MeasuredLine[],
+    notes: MeasuredFootnote[],
+    consumed: number,
+    available: number,
+    orphans: number,
+    widows: number
+  ) => {
+    const firstOnPage = lines.findIndex((line) => line.offset >= consumed);
+    if (firstOnPage < 0) return -1;
+    for (let index = lines.length - widows; index > firstOnPage; index -= 1) {
+      if (index - firstOnPage < orphans) break;
+      const { offset } = lines[index];
+      if (offset - consumed + footnotesHeight(notes, consumed, offset) <= available) return index;
+    }
+    return -1;
+  };
+
+  const blockFootnotesHeight = (block: MeasuredBlock) =>
+    (block.footnotes ?? []).reduce((sum, note) => sum + Math.round(note.height), 0);
+
+  // Height a block needs on the current page before the next block may start:
+  // all of it when it cannot split, otherwise the lines an orphan rule keeps.
+  const leadHeight = (block: MeasuredBlock) => {
+    const lines = block.lines ?? [];
+    if (block.keepTogether || lines.length <= minOrphans) return block.height;
+    return lines[minOrphans].offset;
+  };
+
+  // Space needed by the keep chain starting at `start`: every block flagged
+  // keepWithNext plus the opening of the block it is kept with. 0 if unkept.
+  const keepChainHeight = (start: number) => {
+    let height = 0;
+    let index = start;
+    while (index < blocks.length - 1 && blocks[index].keepWithNext && !blocks[index + 1].pageBreakAfter) {
+      height += blocks[index].height + blockFootnotesHeight(blocks[index]);
+      index += 1;
+    }
+    if (index === start) {
+      return blocks[start].keepTogether ? blocks[start].height + blockFootnotesHeight(blocks[start]) : 0;
+    }
+    return height + leadHeight(blocks[index]);
+  };
+
+  let stoppedAt: number | null = null;
+
+  for (let blockIndex = startIndex; blockIndex < blocks.length; blockIndex += 1) {
+    const block = blocks[blockIndex];
+    const pos = Math.max(1, Math.min(block.pos, docSize));
+    const blockHeight = Math.max(1, Math.round(block.height));
+    const lines = block.lines ?? [];
+    const notes = block.footnotes ?? [];
+    // Height of the block already placed on earlier pages.
+    let consumed = 0;
+
+    if (!pages.length) {
+      openPage(pos);
+    }
+
+    const checkpoint: PaginateCheckpoint = {
+      pos: block.pos,
+      height: blockHeight,
+      remainingOnPage,
+      pageCapacity,
+      pageFootnotes,
+      pageCount: pages.length,
+      pageTo: pages[pages.length - 1].to,
+      fillerCount: fillers.length,
+      splitCount: splits.length,
+      footnoteCount: footnotes.length
+    };
+
+    // Same block, same page, same space left: the rest of the old run still holds.
+    const oldIndex = incremental ? tailCheckpoints.get(block.pos) : undefined;
+    if (incremental && oldIndex !== undefined) {
+      const old = incremental.previous.checkpoints[oldIndex];
+      if (
+        old.height === checkpoint.height &&
+        old.remainingOnPage === checkpoint.remainingOnPage &&
+        old.pageCapacity === checkpoint.pageCapacity &&
+        old.pageFootnotes === checkpoint.pageFootnotes &&
+        old.pageCount === checkpoint.pageCount
+      ) {
+        checkpoints.push(checkpoint);
+        reuseTail(oldIndex, incremental.shift);
+        stoppedAt = block.pos;
+        break;
+      }
+    }
+    checkpoints.push(checkpoint);
+
+    if (remainingOnPage <= 0) {
+      breakBefore("carry", block, pos, carryHeight());
+    }
+
+    const keepHeight = keepChainHeight(blockIndex);
+    if (
+      keepHeight > remainingOnPage &&
+      keepHeight <= bodyHeight(pages.length) - Math.round(block.repeatHeader ?? 0) &&
+      remainingOnPage < pageCapacity
+    ) {
+      // The kept run fits on a fresh page but not here: start it on the next one.
+      breakBefore("break", block, pos, remainingOnPage + carryHeight());
+    }
+
+    while (blockHeight - consumed + footnotesHeight(notes, consumed, Infinity) > remainingOnPage) {
+      const pageIsEmpty = remainingOnPage >= pageCapacity;
+      let breakAt = findBreakLine(lines, notes, consumed, remainingOnPage, minOrphans, minWidows);
+      if (breakAt < 0 && (consumed > 0 || pageIsEmpty)) {
+        // The block cannot move down any further, so break it even if that
+        // strands a widow or orphan rather than overflowing the page.
+        breakAt = findBreakLine(lines, notes, consumed, remainingOnPage, 1, 1);
+      }
+
+      if (breakAt > 0) {
+        const line = lines[breakAt];
+        placeFootnotes(notes, consumed, line.offset);
+        const used = Math.round(line.offset - consumed);
+        pushFiller("split", line.pos, remainingOnPage - used + carryHeight());
+        pages[pages.length - 1].to = block.pos + block.nodeSize;
+        consumed = line.offset;
+        openPage(line.pos);
+        splits.push({ blockPos: block.pos, pos: line.pos, pageIndex: pages.length - 1, offset: consumed });
+        continue;
+      }
+
+      if (consumed === 0 && !pageIsEmpty) {
+        // Nothing fits on what is left of this page: move the whole block down.
+        breakBefore("break", block, pos, remainingOnPage + carryHeight());
+        continue;
+      }
+
+      // A single line taller than a page cannot be broken; let it overflow.
+      break;
+    }
+
+    placeFootnotes(notes, consumed, Infinity);
+    const consumedHere = Math.min(blockHeight - consumed, remainingOnPage);
+    remainingOnPage = Math.max(0, Math.round(remainingOnPage - consumedHere));
+    pages[pages.length - 1].to = block.pos + block.nodeSize;
+
+    if (block.pageBreakAfter) {
+      // The next block, not the end of this one: in a paged document a page
+      // boundary may sit between the two.
+      const nextPos = Math.min(blocks[blockIndex + 1]?.pos ?? block.pos + block.nodeSize, docSize);
+      pushFiller("manual", nextPos, remainingOnPage + carryHeight());
+      openPage(nextPos);
+    }
+  }
+
+  // The tail also carries the last page's footnotes into print.
+  if (stoppedAt === null && remainingOnPage < pageCapacity && (remainingOnPage > 0 || pageFootnotes > 0)) {
+    pushFiller("tail", docSize, remainingOnPage);
+  }
+
+  return {
+    pageCount: pages.length,
+    pages,
+    fillers,
+    splits,
+    footnotes,
+    checkpoints,
+    reflow: { from: startIndex > 0 ? blocks[startIndex].pos : 0, to: stoppedAt }
+  };
+};
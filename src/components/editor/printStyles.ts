@@ -0,0 +1,146 @@
+import type { PageLayout } from "./pageSetup";
+
+// Print rules are generated from the active page layout so the @page box always
+// matches the on-screen sheet. `firstPageInset` is the room a grown header takes
+// on the first page in flow mode; later pages get theirs from the fillers.
+export const buildPrintStyles = (layout: PageLayout, firstPageInset = 0) => {
+  const { margins } = layout;
+  return `
+@media print {
+  @page {
+    size: ${layout.widthIn}in ${layout.heightIn}in;
+    margin: ${margins.top}in ${margins.right}in ${margins.bottom}in ${margins.left}in;
+  }
+
+  html, body {
+    background: #ffffff !important;
+  }
+
+  .fixed,
+  .theme-panel,
+  .theme-overlay,
+  .theme-gap,
+  .theme-shell > header,
+  .theme-shell .pagination-controls,
+  .header-footer-overlay,
+  .header-footer-inline,
+  .page-overlay {
+    display: none !important;
+  }
+
+  .theme-shell {
+    border: none !important;
+    box-shadow: none !important;
+    background: transparent !important;
+  }
+
+  /* Hide absolute overlay layers (page headers/footers/masks) during print, except footer numbers */
+  .pointer-events-none.z-25,
+  .pointer-events-none.z-30:not(.page-footer-overlay) {
+    display: none !important;
+  }
+
+  /* Re-enable footer page numbers so they print */
+  .pointer-events-none.z-30.page-footer-overlay {
+    display: block !important;
+  }
+
+  .page-footer-overlay span {
+    color: #0f172a !important;
+  }
+
+  /* Fixed boxes repeat on every printed page, placed against the page area */
+  .pleading-print {
+    display: block !important;
+    position: fixed;
+    top: -${layout.marginTop}px;
+    left: -${layout.marginLeft}px;
+    z-index: 1;
+  }
+
+  /* Per-page boxes placed in print page areas; see HeaderFooterPrint */
+  .header-footer-print {
+    display: block !important;
+  }
+
+  /* Margins come from the @page rule, so the sheet itself carries no padding */
+  .printable-page {
+    width: auto !important;
+    min-height: 0 !important;
+    margin: 0 !important;
+    padding: ${firstPageInset}px 0 0 !important;
+    box-shadow: none !important;
+    background: #ffffff !important;
+    color: #0f172a !important;
+  }
+
+  .page-break-filler[data-print-break="true"] {
+    height: 0 !important;
+    padding: 0 !important;
+    margin: 0 !important;
+    break-after: page;
+    page-break-after: always;
+  }
+
+  .page-break-filler > td {
+    height: 0 !important;
+    padding: 0 !important;
+  }
+
+  .page-break-filler[data-print-break="false"] {
+    height: 0 !important;
+    padding: 0 !important;
+    margin: 0 !important;
+    break-after: auto;
+    page-break-after: auto;
+  }
+
+  /* A grown header on the next page: the filler moves past the break and holds it clear */
+  .page-break-filler[data-print-inset="true"],
+  .page-break-filler[data-print-inset="true"] > td {
+    height: var(--print-inset) !important;
+  }
+
+  .page-break-filler[data-print-break="true"][data-print-inset="true"] {
+    break-after: auto;
+    page-break-after: auto;
+    break-before: page;
+    page-break-before: always;
+  }
+
+  [data-keep-with-next="true"] {
+    break-after: avoid;
+    page-break-after: avoid;
+  }
+
+  .structural-page {
+    width: auto !important;
+    min-height: 0 !important;
+    padding: var(--page-inset-top, 0px) 0 0 !important;
+    margin: 0 !important;
+    border: none !important;
+    box-shadow: none !important;
+    break-after: page;
+    page-break-after: always;
+    content-visibility: visible;
+  }
+
+  .structural-page:last-child {
+    break-after: auto;
+    page-break-after: auto;
+  }
+
+  .page-break-marker {
+    height: 0 !important;
+    margin: 0 !important;
+    border: none !important;
+    visibility: hidden;
+  }
+
+  [data-keep-together="true"] {
+    break-inside: avoid;
+    page-break-inside: avoid;
+  }
+}
+`;
+};